@@ -0,0 +1,102 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { IncomeLedger, IncomeLedgerEntry } from './types.js';
+
+/**
+ * Срок хранения записей журнала по умолчанию (сутки)
+ */
+const DEFAULT_MAX_AGE = 24 * 60 * 60 * 1000;
+
+/**
+ * Журнал идемпотентности в памяти процесса
+ *
+ * Записи старше maxAge удаляются при каждой новой записи.
+ */
+export class MemoryIncomeLedger implements IncomeLedger {
+  private readonly entries = new Map<string, IncomeLedgerEntry>();
+
+  constructor(private readonly maxAge = DEFAULT_MAX_AGE) {}
+
+  async get(key: string): Promise<IncomeLedgerEntry | null> {
+    const entry = this.entries.get(key);
+    return entry ? { ...entry } : null;
+  }
+
+  async set(key: string, entry: IncomeLedgerEntry): Promise<void> {
+    this.prune();
+    this.entries.set(key, { ...entry });
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  /**
+   * Удаляет устаревшие записи
+   */
+  private prune(): void {
+    const threshold = Date.now() - this.maxAge;
+    for (const [key, entry] of this.entries) {
+      if (new Date(entry.createdAt).getTime() < threshold) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Журнал идемпотентности в JSON-файле
+ *
+ * Переживает перезапуск процесса: если процесс упал между отправкой
+ * чека и получением ответа, повтор с тем же ключом найдёт созданный чек.
+ */
+export class FileIncomeLedger implements IncomeLedger {
+  private readonly filePath: string;
+
+  constructor(filePath = 'income-ledger.json', private readonly maxAge = DEFAULT_MAX_AGE) {
+    this.filePath = path.resolve(filePath);
+  }
+
+  async get(key: string): Promise<IncomeLedgerEntry | null> {
+    return this.read()[key] || null;
+  }
+
+  async set(key: string, entry: IncomeLedgerEntry): Promise<void> {
+    const threshold = Date.now() - this.maxAge;
+    const entries = this.read();
+
+    for (const [existingKey, existing] of Object.entries(entries)) {
+      if (new Date(existing.createdAt).getTime() < threshold) {
+        delete entries[existingKey];
+      }
+    }
+    entries[key] = entry;
+
+    this.write(entries);
+  }
+
+  async delete(key: string): Promise<void> {
+    const entries = this.read();
+    if (key in entries) {
+      delete entries[key];
+      this.write(entries);
+    }
+  }
+
+  /**
+   * Читает все записи из файла
+   */
+  private read(): Record<string, IncomeLedgerEntry> {
+    if (!fs.existsSync(this.filePath)) {
+      return {};
+    }
+    return JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+  }
+
+  /**
+   * Записывает все записи в файл
+   */
+  private write(entries: Record<string, IncomeLedgerEntry>): void {
+    fs.writeFileSync(this.filePath, JSON.stringify(entries, null, 2), { encoding: 'utf8', mode: 0o600 });
+  }
+}
@@ -1,5 +1,4 @@
 import * as fs from 'fs';
-import * as path from 'path';
 import {
   NalogApiOptions,
   AuthState,
@@ -14,25 +13,127 @@ import {
   IncomeResult,
   Receipt,
   ReceiptJson,
+  IncomeLedger,
+  IncomeLedgerEntry,
   TokenResponse,
+  SessionRenewalReason,
   UserInfo,
+  Counterparty,
+  Invoice,
+  CreateInvoiceParams,
+  ListInvoicesParams,
+  InvoiceListResponse,
+  PayInvoiceParams,
+  InvoiceReceipt,
+  PaymentDetails,
+  PaymentDetailsParams,
+  PaymentDetailsListResponse,
+  ReceiptFile,
+  ReceiptHttpResponse,
+  NotificationItem,
+  ListNotificationsParams,
+  NotificationListResponse,
+  SavedClient,
+  SavedClientParams,
+  ClientListResponse,
   IncomeClient,
   IncomeService,
   SavedTokens,
+  TokenStore,
+  RetryPolicy,
+  RequestOptions,
+  FetchFunction,
+  Logger,
+  Interceptor,
+  RequestContext,
+  IncomeSortBy,
+  ListIncomesParams,
+  IncomeListItem,
+  IncomeListResponse,
+  TaxSummary,
+  TaxPeriodRecord,
+  TaxHistoryResponse,
 } from './types.js';
+import {
+  NalogApiError,
+  NetworkError,
+  PaymentDetailsValidationError,
+  TimeoutError,
+  ValidationError,
+  createApiError,
+} from './errors.js';
+import { FileTokenStore, EncryptedFileTokenStore } from './TokenStore.js';
+import { MemoryIncomeLedger } from './IncomeLedger.js';
+import { isValidInn, normalizePhone } from './identifiers.js';
+import { formatKopecks, multiplyKopecks, toKopecks } from './money.js';
+import {
+  assertValid,
+  validateCreateIncomeParams,
+  validateCreateMultipleIncomeParams,
+  validateIncomeClient,
+  validatePaymentDetails,
+} from './validation.js';
+import { getTimezoneFormatter, toWallTime } from './timezone.js';
+import { maskPhone, redactError, redactHeaders, redactRequestBody, redactResponseBody } from './redact.js';
+
+export { NalogApiError };
 
 /**
- * Ошибка API налоговой
+ * Тело запроса на регистрацию чека
  */
-export class NalogApiError extends Error {
-  constructor(
-    message: string,
-    public code?: string,
-    public response?: unknown
-  ) {
-    super(message);
-    this.name = 'NalogApiError';
-  }
+interface IncomeRequestBody {
+  operationTime: string;
+  requestTime: string;
+  paymentType: PaymentType;
+  ignoreMaxTotalIncomeRestriction: boolean;
+  client: IncomeClient;
+  services: IncomeLedgerEntry['services'];
+  totalAmount: string;
+}
+
+/**
+ * Логгер по умолчанию: выводит в console только ошибки
+ */
+const defaultLogger: Logger = {
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: (message, context) => console.error(message, context),
+};
+
+/**
+ * Формат тела ответа: JSON (по умолчанию) или двоичные данные
+ */
+type ResponseType = 'json' | 'binary';
+
+/**
+ * Двоичное тело ответа
+ */
+interface BinaryBody {
+  data: Buffer;
+  contentType: string;
+}
+
+/**
+ * Ответ сервера с разобранным телом
+ */
+interface HttpResult {
+  response: Response;
+  data: unknown;
+  /** Ошибка API, если сервер ответил не 2xx */
+  error?: NalogApiError;
+}
+
+/**
+ * Сумма и позиции чека для сравнения
+ */
+interface ComparableIncome {
+  totalAmount: string | number;
+  services: {
+    name: string;
+    amount: string | number;
+    quantity: number;
+  }[];
 }
 
 /**
@@ -58,7 +159,21 @@ export class NalogApi {
   private readonly deviceInfo: DeviceInfo;
   private readonly autoRefreshToken: boolean;
   private readonly saveToken: boolean;
-  private readonly saveTokenPath: string;
+  private readonly tokenStore: TokenStore;
+  private readonly hasExplicitDeviceId: boolean;
+  private sessionRestore: Promise<boolean> | null = null;
+  private pendingRefresh: Promise<TokenResponse> | null = null;
+  private pendingAuth: Promise<TokenResponse> | null = null;
+  private pendingRenewal: Promise<TokenResponse> | null = null;
+  private readonly pendingIncomes = new Map<string, Promise<Receipt>>();
+  private readonly onSessionRenewed?: NalogApiOptions['onSessionRenewed'];
+  private readonly retryPolicy: Required<RetryPolicy>;
+  private readonly incomeLedger: IncomeLedger;
+  private readonly timeout: number;
+  private readonly fetch: FetchFunction;
+  private readonly interceptors: Interceptor[];
+  private readonly logger: Logger;
+  private readonly validateIncome: boolean;
 
   private authState: AuthState = {
     accessToken: null,
@@ -76,9 +191,33 @@ export class NalogApi {
   constructor(options: NalogApiOptions = {}) {
     this.baseUrl = options.baseUrl || 'https://lknpd.nalog.ru/api/v1';
     this.timezone = options.timezone || 'Europe/Moscow';
+    this.checkTimezone(this.timezone);
     this.autoRefreshToken = options.autoRefreshToken ?? true;
-    this.saveToken = options.saveToken ?? false;
-    this.saveTokenPath = options.saveTokenPath || 'session-token.json';
+    this.saveToken = options.saveToken ?? Boolean(options.tokenStore);
+    this.tokenStore = options.tokenStore || this.createFileTokenStore(
+      options.saveTokenPath || 'session-token.json',
+      options.saveTokenEncryptionKey
+    );
+    this.hasExplicitDeviceId = Boolean(options.deviceId);
+    this.onSessionRenewed = options.onSessionRenewed;
+    this.incomeLedger = options.incomeLedger || new MemoryIncomeLedger();
+    this.timeout = options.timeout ?? 30000;
+    // Глобальный fetch берём в момент вызова, чтобы учитывать его подмену
+    this.fetch = options.fetch || ((input, init) => fetch(input, init));
+    this.interceptors = [...(options.interceptors || [])];
+    this.logger = options.logger || defaultLogger;
+    this.validateIncome = options.validateIncome ?? true;
+    this.retryPolicy = {
+      maxAttempts: 1,
+      baseDelay: 500,
+      maxDelay: 10000,
+      jitter: true,
+      retryOnStatus: [429, 500, 502, 503, 504],
+      retryOnNetworkError: true,
+      retryNonIdempotent: false,
+      ...(options.retry && { maxAttempts: 3 }),
+      ...options.retry,
+    };
 
     this.deviceInfo = {
       sourceDeviceId: options.deviceId || this.generateDeviceId(),
@@ -89,11 +228,6 @@ export class NalogApi {
       },
     };
 
-    // Пытаемся загрузить сохранённые токены
-    if (this.saveToken) {
-      this.loadTokensFromFile();
-    }
-
     if (options.inn) {
       this.authParams.inn = options.inn;
       if (!this.authState.inn) {
@@ -113,12 +247,22 @@ export class NalogApi {
       this.authState.refreshToken = options.refreshToken;
     }
     
-    // Используем deviceId из сохранённых токенов или из опций
-    if (options.deviceId) {
-      this.deviceInfo.sourceDeviceId = options.deviceId;
+    // Пытаемся загрузить сохранённые токены
+    // (ошибку расшифровки получит первый запрос или вызов restoreSession())
+    if (this.saveToken) {
+      this.restoreSession().catch(() => {});
     }
   }
 
+  /**
+   * Создаёт файловое хранилище токенов (зашифрованное, если задан ключ)
+   */
+  private createFileTokenStore(filePath: string, encryptionKey?: string | Buffer): TokenStore {
+    return encryptionKey
+      ? new EncryptedFileTokenStore(filePath, encryptionKey)
+      : new FileTokenStore(filePath);
+  }
+
   /**
    * Генерирует уникальный Device ID
    */
@@ -131,21 +275,47 @@ export class NalogApi {
   }
 
   /**
-   * Загружает токены из файла
+   * Восстанавливает сессию из хранилища токенов
+   *
+   * Вызывается автоматически при создании клиента с saveToken/tokenStore;
+   * все запросы дожидаются окончания загрузки.
+   *
+   * @returns true, если токены были загружены
+   * @throws {NalogApiError} Если файл с токенами не удалось расшифровать
+   */
+  restoreSession(): Promise<boolean> {
+    if (!this.sessionRestore) {
+      this.sessionRestore = this.saveToken ? this.loadSavedTokens() : Promise.resolve(false);
+    }
+    return this.sessionRestore;
+  }
+
+  /**
+   * Дожидается восстановления сессии
+   *
+   * Ошибку чтения хранилища пробрасывает только вызовам, которым нужна
+   * сохранённая сессия: новый вход по паролю или SMS заменит нечитаемый файл.
    */
-  private loadTokensFromFile(): boolean {
+  private async waitSessionRestore(required: boolean): Promise<void> {
     try {
-      const filePath = path.resolve(this.saveTokenPath);
-      
-      if (!fs.existsSync(filePath)) {
-        return false;
+      await this.restoreSession();
+    } catch (error) {
+      if (required) {
+        throw error;
       }
+    }
+  }
 
-      const data = fs.readFileSync(filePath, 'utf8');
-      const saved: SavedTokens = JSON.parse(data);
+  /**
+   * Загружает токены из хранилища
+   */
+  private async loadSavedTokens(): Promise<boolean> {
+    try {
+      const saved = await this.tokenStore.load();
 
       // Проверяем наличие обязательных полей
-      if (!saved.refreshToken) {
+      if (!saved?.refreshToken) {
+        this.logger.debug('No saved tokens found', { event: 'tokens.load', restored: false });
         return false;
       }
 
@@ -156,36 +326,49 @@ export class NalogApi {
 
       // Загружаем данные
       this.authState.refreshToken = saved.refreshToken;
-      this.authState.inn = saved.inn;
       this.authState.tokenExpireIn = tokenExpireIn;
+      if (saved.inn) {
+        this.authState.inn = saved.inn;
+      }
 
       // Access token загружаем только если он ещё валиден
       if (isAccessTokenValid) {
         this.authState.accessToken = saved.accessToken;
       }
 
-      // Восстанавливаем deviceId
-      if (saved.deviceId) {
+      // Восстанавливаем deviceId, если он не задан явно в опциях
+      if (saved.deviceId && !this.hasExplicitDeviceId) {
         this.deviceInfo.sourceDeviceId = saved.deviceId;
       }
 
+      this.logger.info('Session restored from token store', {
+        event: 'tokens.load',
+        restored: true,
+        inn: this.authState.inn,
+        accessTokenValid: isAccessTokenValid,
+      });
+
       return true;
-    } catch {
+    } catch (error) {
+      // Неверный ключ шифрования не должен молча превращаться в «нет сессии»
+      if (error instanceof NalogApiError) {
+        this.logger.error('Failed to load saved tokens', { event: 'tokens.load.failed', error });
+        throw error;
+      }
+      this.logger.warn('Failed to load saved tokens', { event: 'tokens.load.failed', error: redactError(error) });
       return false;
     }
   }
 
   /**
-   * Сохраняет токены в файл
+   * Сохраняет токены в хранилище
    */
-  private saveTokensToFile(): void {
+  private async saveTokens(): Promise<void> {
     if (!this.saveToken) {
       return;
     }
 
     try {
-      const filePath = path.resolve(this.saveTokenPath);
-      
       const data: SavedTokens = {
         accessToken: this.authState.accessToken || '',
         refreshToken: this.authState.refreshToken || '',
@@ -195,22 +378,20 @@ export class NalogApi {
         savedAt: new Date().toISOString(),
       };
 
-      fs.writeFileSync(filePath, JSON.stringify(data, null, 2), 'utf8');
+      await this.tokenStore.save(data);
+      this.logger.debug('Tokens saved', { event: 'tokens.save', inn: data.inn });
     } catch (error) {
       // Логируем ошибку, но не прерываем выполнение
-      console.error('Failed to save tokens to file:', error);
+      this.logger.error('Failed to save tokens', { event: 'tokens.save.failed', error: redactError(error) });
     }
   }
 
   /**
-   * Удаляет файл с токенами
+   * Удаляет сохранённые токены из хранилища
    */
-  clearSavedTokens(): void {
+  async clearSavedTokens(): Promise<void> {
     try {
-      const filePath = path.resolve(this.saveTokenPath);
-      if (fs.existsSync(filePath)) {
-        fs.unlinkSync(filePath);
-      }
+      await this.tokenStore.clear();
     } catch {
       // Игнорируем ошибки
     }
@@ -218,48 +399,50 @@ export class NalogApi {
 
   /**
    * Нормализует номер телефона
+   *
+   * @throws {ValidationError} Если формат номера не распознан
    */
   private normalizePhone(phone: string): string {
-    const digits = phone.replace(/\D/g, '');
-    if (digits.startsWith('8') && digits.length === 11) {
-      return '7' + digits.slice(1);
-    }
-    if (digits.startsWith('7') && digits.length === 11) {
-      return digits;
-    }
-    if (digits.length === 10) {
-      return '7' + digits;
+    // API ожидает номер без «+»: 79991234567
+    return normalizePhone(phone).slice(1);
+  }
+
+  /**
+   * Проверяет, что часовой пояс есть в базе IANA
+   *
+   * @throws {NalogApiError} Если часовой пояс неизвестен
+   */
+  private checkTimezone(timezone: string): void {
+    try {
+      getTimezoneFormatter(timezone);
+    } catch {
+      throw new NalogApiError(`Неизвестный часовой пояс: ${timezone}`);
     }
-    return digits;
   }
 
   /**
    * Форматирует дату в ISO формат с таймзоной
+   *
+   * Возвращает местное время в часовом поясе клиента со смещением,
+   * действовавшим на эту дату (например, 2025-01-15T12:00:00.000+03:00)
    */
   private formatDate(date: Date = new Date()): string {
-    const offset = this.getTimezoneOffset();
-    const localDate = new Date(date.getTime());
-    return localDate.toISOString().slice(0, -1) + offset;
-  }
-
-  /**
-   * Получает смещение часового пояса
-   */
-  private getTimezoneOffset(): string {
-    const timezoneOffsets: Record<string, string> = {
-      'Europe/Moscow': '+03:00',
-      'Europe/Kaliningrad': '+02:00',
-      'Europe/Samara': '+04:00',
-      'Asia/Yekaterinburg': '+05:00',
-      'Asia/Omsk': '+06:00',
-      'Asia/Krasnoyarsk': '+07:00',
-      'Asia/Irkutsk': '+08:00',
-      'Asia/Yakutsk': '+09:00',
-      'Asia/Vladivostok': '+10:00',
-      'Asia/Magadan': '+11:00',
-      'Asia/Kamchatka': '+12:00',
-    };
-    return timezoneOffsets[this.timezone] || '+03:00';
+    const ms = date.getTime();
+    const wallTime = toWallTime(ms, this.timezone);
+    const offsetMinutes = Math.round((wallTime - ms) / 60000);
+
+    return new Date(wallTime).toISOString().slice(0, -1) + this.formatOffset(offsetMinutes);
+  }
+
+  /**
+   * Форматирует смещение часового пояса в виде ±HH:MM
+   */
+  private formatOffset(offsetMinutes: number): string {
+    const sign = offsetMinutes < 0 ? '-' : '+';
+    const abs = Math.abs(offsetMinutes);
+    const hours = String(Math.floor(abs / 60)).padStart(2, '0');
+    const minutes = String(abs % 60).padStart(2, '0');
+    return `${sign}${hours}:${minutes}`;
   }
 
   /**
@@ -269,15 +452,120 @@ export class NalogApi {
     method: string,
     endpoint: string,
     body?: unknown,
-    requireAuth = true
+    requireAuth = true,
+    options: RequestOptions = {},
+    responseType: ResponseType = 'json'
   ): Promise<T> {
+    await this.waitSessionRestore(requireAuth);
+
     if (requireAuth && this.autoRefreshToken) {
-      await this.ensureValidToken();
+      await this.ensureValidToken(options);
+    }
+
+    const usedToken = this.authState.accessToken;
+
+    try {
+      return await this.send<T>(method, endpoint, body, requireAuth, options, responseType);
+    } catch (error) {
+      // Токен мог быть отозван сервером раньше срока:
+      // обновляем сессию один раз и повторяем исходный запрос
+      if (!requireAuth || !this.autoRefreshToken || !this.isAuthError(error)) {
+        throw error;
+      }
+      await this.renewSession(usedToken, options);
+      return this.send<T>(method, endpoint, body, requireAuth, options, responseType);
     }
+  }
+
+  /**
+   * Отправляет HTTP запрос с повторами согласно политике повторов
+   */
+  private async send<T>(
+    method: string,
+    endpoint: string,
+    body: unknown,
+    requireAuth: boolean,
+    options: RequestOptions,
+    responseType: ResponseType
+  ): Promise<T> {
+    const canRetry = this.isRetryable(method, endpoint);
+    const maxAttempts = canRetry ? this.retryPolicy.maxAttempts : 1;
+
+    for (let attempt = 1; ; attempt++) {
+      let result: HttpResult;
+      try {
+        result = await this.fetchOnce(method, endpoint, body, requireAuth, options, attempt, responseType);
+      } catch (error) {
+        // Сетевая ошибка или таймаут (отмену через signal не повторяем)
+        if (
+          error instanceof NetworkError &&
+          attempt < maxAttempts &&
+          this.retryPolicy.retryOnNetworkError
+        ) {
+          const delay = this.getBackoffDelay(attempt);
+          this.logRetry(method, endpoint, attempt, delay, error.code);
+          await this.sleep(delay, options.signal);
+          continue;
+        }
+        throw error;
+      }
+
+      const { response, data } = result;
+
+      if (
+        !response.ok &&
+        attempt < maxAttempts &&
+        this.retryPolicy.retryOnStatus.includes(response.status)
+      ) {
+        const retryAfter = this.parseRetryAfter(response.headers?.get('Retry-After'));
+        // Если сервер просит ждать дольше maxDelay, сразу отдаём ошибку
+        if (retryAfter === null || retryAfter <= this.retryPolicy.maxDelay) {
+          const delay = retryAfter ?? this.getBackoffDelay(attempt);
+          this.logRetry(method, endpoint, attempt, delay, response.status);
+          await this.sleep(delay, options.signal);
+          continue;
+        }
+      }
+
+      if (result.error) {
+        throw result.error;
+      }
+
+      return data as T;
+    }
+  }
+
+  /**
+   * Записывает в лог повтор запроса
+   */
+  private logRetry(method: string, endpoint: string, attempt: number, delay: number, reason: unknown): void {
+    this.logger.warn('Retrying request', {
+      event: 'api.retry',
+      method,
+      endpoint,
+      attempt,
+      delay,
+      reason,
+    });
+  }
 
+  /**
+   * Выполняет один HTTP запрос к API и читает ответ
+   */
+  private async fetchOnce(
+    method: string,
+    endpoint: string,
+    body: unknown,
+    requireAuth: boolean,
+    options: RequestOptions,
+    attempt: number,
+    responseType: ResponseType
+  ): Promise<HttpResult> {
     const headers: Record<string, string> = {
       'Content-Type': 'application/json',
-      Accept: 'application/json, text/plain, */*',
+      Accept: responseType === 'binary'
+        ? 'image/*, application/pdf, */*'
+        : 'application/json, text/plain, */*',
     };
 
     if (requireAuth && this.authState.accessToken) {
@@ -286,200 +574,667 @@ export class NalogApi {
 
     const url = `${this.baseUrl}/${endpoint}`;
 
-    const response = await fetch(url, {
-      method,
-      headers,
-      body: body ? JSON.stringify(body) : undefined,
+    return this.execute({ method, endpoint, url, headers, body, attempt }, options, async (response) => {
+      // Тело ошибки читаем как JSON, чтобы получить код и сообщение
+      if (responseType === 'binary' && response.ok) {
+        const binary: BinaryBody = {
+          data: Buffer.from(await response.arrayBuffer()),
+          contentType: response.headers.get('Content-Type') || 'application/octet-stream',
+        };
+        return binary;
+      }
+
+      return this.readBody(response);
     });
+  }
 
+  /**
+   * Читает тело ответа: JSON, если разбирается, иначе текст
+   *
+   * Ошибка разбора не прерывает запрос, чтобы ответы с HTML или пустым
+   * телом тоже проходили через toApiError().
+   */
+  private async readBody(response: Response): Promise<unknown> {
     const text = await response.text();
-    let data: unknown;
 
     try {
-      data = text ? JSON.parse(text) : null;
+      return text ? JSON.parse(text) : null;
     } catch {
-      data = text;
+      return text;
+    }
+  }
+
+  /**
+   * Выполняет HTTP запрос через цепочку перехватчиков
+   *
+   * @param read Чтение тела ответа
+   */
+  private async execute(
+    request: {
+      method: string;
+      endpoint: string;
+      url: string;
+      headers: Record<string, string>;
+      body: unknown;
+      attempt: number;
+    },
+    options: RequestOptions,
+    read: (response: Response) => Promise<unknown>
+  ): Promise<HttpResult> {
+    const { method, endpoint, url, body } = request;
+
+    // Перехватчики видят заголовки со скрытым токеном
+    const visibleHeaders = redactHeaders(request.headers);
+
+    const context: RequestContext = {
+      method,
+      endpoint,
+      url,
+      headers: { ...visibleHeaders },
+      body: redactRequestBody(body),
+      attempt: request.attempt,
+      meta: {},
+    };
+
+    for (const interceptor of this.interceptors) {
+      await interceptor.beforeRequest?.(context);
+    }
+
+    const startedAt = Date.now();
+    let result: HttpResult;
+
+    try {
+      result = await this.withTimeout(endpoint, options, async (signal) => {
+        const response = await this.fetch(url, {
+          method,
+          headers: this.restoreHeaders(context.headers, visibleHeaders, request.headers),
+          body: body ? JSON.stringify(body) : undefined,
+          signal,
+        });
+        return { response, data: await read(response) };
+      });
+    } catch (error) {
+      const duration = Date.now() - startedAt;
+      this.logger.warn('API request failed', {
+        event: 'api.request.failed',
+        method,
+        endpoint,
+        attempt: request.attempt,
+        duration,
+        error: redactError(error),
+      });
+      for (const interceptor of this.interceptors) {
+        await interceptor.onError?.({ ...context, error, duration });
+      }
+      throw error;
+    }
+
+    const { response, data } = result;
+    const duration = Date.now() - startedAt;
+
+    this.logger.debug('API request', {
+      event: 'api.request',
+      method,
+      endpoint,
+      attempt: request.attempt,
+      status: response.status,
+      duration,
+    });
+
+    for (const interceptor of this.interceptors) {
+      await interceptor.afterResponse?.({
+        ...context,
+        status: response.status,
+        data: redactResponseBody(data),
+        duration,
+      });
     }
 
     if (!response.ok) {
-      const errorData = data as { code?: string; message?: string } | null;
-      throw new NalogApiError(
-        errorData?.message || `HTTP Error: ${response.status}`,
-        errorData?.code,
-        data
-      );
+      result.error = this.toApiError(response, data, endpoint);
+      for (const interceptor of this.interceptors) {
+        await interceptor.onError?.({ ...context, error: result.error, duration });
+      }
     }
 
-    return data as T;
+    return result;
   }
 
   /**
-   * Проверяет и обновляет токен при необходимости
+   * Возвращает исходные значения скрытых заголовков, не изменённых перехватчиками
    */
-  private async ensureValidToken(): Promise<void> {
-    if (!this.authState.accessToken) {
-      await this.auth();
-      return;
-    }
-
-    if (this.authState.tokenExpireIn) {
-      const now = new Date();
-      const expireTime = new Date(this.authState.tokenExpireIn);
-      // Обновляем за 5 минут до истечения
-      if (now >= new Date(expireTime.getTime() - 5 * 60 * 1000)) {
-        await this.refreshAccessToken();
+  private restoreHeaders(
+    headers: Record<string, string>,
+    visible: Record<string, string>,
+    original: Record<string, string>
+  ): Record<string, string> {
+    const result = { ...headers };
+    for (const [key, value] of Object.entries(visible)) {
+      if (result[key] === value && value !== original[key]) {
+        result[key] = original[key];
       }
     }
+    return result;
   }
 
   /**
-   * Авторизация в API
+   * Выполняет запрос с таймаутом и внешним сигналом отмены
    *
-   * @throws {NalogApiError} При ошибке авторизации
+   * Таймаут охватывает и получение заголовков, и чтение тела ответа.
+   *
+   * @throws {TimeoutError} Если ответ не получен за отведённое время
+   * @throws {NetworkError} При сетевой ошибке
+   * @throws Причина отмены (signal.reason), если запрос отменён через signal
    */
-  async auth(): Promise<TokenResponse> {
-    if (this.authState.refreshToken) {
-      return this.refreshAccessToken();
-    }
+  private async withTimeout<R>(
+    endpoint: string,
+    options: RequestOptions,
+    run: (signal: AbortSignal) => Promise<R>
+  ): Promise<R> {
+    const { signal } = options;
+    const timeout = options.timeout ?? this.timeout;
+
+    signal?.throwIfAborted();
+
+    const controller = new AbortController();
+    let timedOut = false;
+
+    const timer = timeout > 0
+      ? setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, timeout)
+      : undefined;
+    const onAbort = () => controller.abort(signal?.reason);
+    signal?.addEventListener('abort', onAbort, { once: true });
 
-    if (this.authParams.inn && this.authParams.password) {
-      return this.authByInn(this.authParams.inn, this.authParams.password);
+    try {
+      return await run(controller.signal);
+    } catch (error) {
+      if (timedOut) {
+        throw new TimeoutError(`Превышено время ожидания ответа (${timeout} мс)`, {
+          endpoint,
+          cause: error,
+        });
+      }
+      if (signal?.aborted) {
+        throw signal.reason;
+      }
+      throw this.toNetworkError(error, endpoint);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
     }
+  }
 
-    if (this.authParams.phone) {
-      throw new NalogApiError(
-        'Для авторизации по телефону используйте методы requestSmsCode() и authByPhone()'
-      );
-    }
+  /**
+   * Создаёт типизированную ошибку по ответу сервера
+   */
+  private toApiError(response: Response, data: unknown, endpoint: string): NalogApiError {
+    const errorData = data as { code?: string; message?: string } | null;
 
-    throw new NalogApiError(
-      'Не указаны параметры авторизации. Укажите inn+password или phone'
+    return createApiError(
+      errorData?.message || `HTTP Error: ${response.status}`,
+      errorData?.code,
+      data,
+      {
+        status: response.status,
+        requestId: response.headers?.get('X-Request-Id') || undefined,
+        endpoint,
+        retryAfter: this.parseRetryAfter(response.headers?.get('Retry-After')) ?? undefined,
+      }
     );
   }
 
   /**
-   * Авторизация по ИНН и паролю от ЛК ФНС
+   * Оборачивает ошибку fetch в NetworkError
    */
-  async authByInn(inn: string, password: string): Promise<TokenResponse> {
-    const response = await this.request<TokenResponse>(
-      'POST',
-      'auth/lkfl',
-      {
-        inn,
-        password,
-        deviceInfo: this.deviceInfo,
-      },
-      false
-    );
+  private toNetworkError(error: unknown, endpoint: string): NetworkError {
+    const reason = error instanceof Error ? error.message : String(error);
+    return new NetworkError(`Ошибка сети: ${reason}`, { endpoint, cause: error });
+  }
 
-    this.authState.accessToken = response.token;
-    this.authState.refreshToken = response.refreshToken;
-    this.authState.tokenExpireIn = new Date(response.tokenExpireIn);
-    this.authState.inn = inn;
+  /**
+   * Проверяет, можно ли повторять запрос
+   *
+   * GET-запросы повторяются всегда, POST — только если это явно разрешено
+   * в retryNonIdempotent (повтор income может создать второй чек).
+   * Методы auth/* не повторяются никогда: refresh token одноразовый, и после
+   * таймаута сервер мог его уже израсходовать.
+   */
+  private isRetryable(method: string, endpoint: string): boolean {
+    if (endpoint.startsWith('auth/')) {
+      return false;
+    }
 
-    this.saveTokensToFile();
+    if (method === 'GET') {
+      return true;
+    }
 
-    return response;
+    const { retryNonIdempotent } = this.retryPolicy;
+    if (Array.isArray(retryNonIdempotent)) {
+      return retryNonIdempotent.includes(endpoint.split('?')[0]);
+    }
+    return retryNonIdempotent;
   }
 
   /**
-   * Запрос SMS-кода для авторизации по телефону
+   * Вычисляет задержку перед повтором (экспоненциально, с jitter)
    *
-   * @returns challengeToken для последующей авторизации
+   * @param attempt Номер неудачной попытки (начиная с 1)
    */
-  async requestSmsCode(phone: string): Promise<string> {
-    const normalizedPhone = this.normalizePhone(phone);
+  private getBackoffDelay(attempt: number): number {
+    const { baseDelay, maxDelay, jitter } = this.retryPolicy;
+    const delay = Math.min(baseDelay * 2 ** (attempt - 1), maxDelay);
+    return jitter ? Math.random() * delay : delay;
+  }
 
-    // Используем v2 API для запроса SMS
-    const url = this.baseUrl.replace('/v1', '/v2') + '/auth/challenge/sms/start';
+  /**
+   * Разбирает заголовок Retry-After (секунды или HTTP-дата)
+   *
+   * @returns Задержка в мс или null, если заголовка нет
+   */
+  private parseRetryAfter(header?: string | null): number | null {
+    if (!header) {
+      return null;
+    }
 
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Accept: 'application/json, text/plain, */*',
-      },
-      body: JSON.stringify({
-        phone: normalizedPhone,
-        requireTpToBeActive: true,
-        deviceData: {
-          sourceType: SourceType.WEB,
-        },
-      }),
-    });
+    const seconds = Number(header);
+    const delay = Number.isNaN(seconds)
+      ? new Date(header).getTime() - Date.now()
+      : seconds * 1000;
 
-    const data = await response.json() as { challengeToken: string };
+    return Number.isNaN(delay) ? null : Math.max(delay, 0);
+  }
 
-    if (!response.ok) {
-      throw new NalogApiError(
-        (data as unknown as { message?: string }).message || `HTTP Error: ${response.status}`,
-        (data as unknown as { code?: string }).code,
-        data
-      );
+  /**
+   * Пауза перед повтором
+   *
+   * @throws Причина отмены (signal.reason), если signal сработал во время паузы
+   */
+  private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason);
     }
 
-    return data.challengeToken;
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(signal?.reason);
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
   }
 
   /**
-   * Авторизация по телефону с SMS-кодом
+   * Ожидает общую для параллельных запросов операцию (авторизацию, обновление токена)
+   *
+   * Таймаут вызывающего передаётся в саму операцию, а его signal прекращает
+   * только ожидание: операцию ждут и другие запросы, а одноразовый
+   * refresh token не должен потеряться из-за отмены одного из них.
+   *
+   * @throws Причина отмены (signal.reason), если signal сработал раньше
    */
-  async authByPhone(
-    phone: string,
-    challengeToken: string,
-    code: string
-  ): Promise<TokenResponse> {
-    const normalizedPhone = this.normalizePhone(phone);
+  private waitShared<T>(operation: Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (!signal) {
+      return operation;
+    }
+    if (signal.aborted) {
+      return Promise.reject(signal.reason);
+    }
 
-    const response = await this.request<TokenResponse>(
-      'POST',
-      'auth/challenge/sms/verify',
-      {
-        phone: normalizedPhone,
-        code,
-        challengeToken,
-        deviceInfo: this.deviceInfo,
-      },
-      false
-    );
+    return new Promise((resolve, reject) => {
+      const onAbort = () => reject(signal.reason);
+      signal.addEventListener('abort', onAbort, { once: true });
+      operation
+        .then(resolve, reject)
+        .finally(() => signal.removeEventListener('abort', onAbort));
+    });
+  }
 
-    this.authState.accessToken = response.token;
-    this.authState.refreshToken = response.refreshToken;
-    this.authState.tokenExpireIn = new Date(response.tokenExpireIn);
+  /**
+   * Проверяет, что ошибка означает недействительный токен
+   */
+  private isAuthError(error: unknown): boolean {
+    return error instanceof NalogApiError && error.status === 401;
+  }
 
-    // ИНН приходит в profile из ответа
-    if (response.profile?.inn) {
-      this.authState.inn = response.profile.inn;
+  /**
+   * Обновляет сессию после отказа сервера в авторизации
+   *
+   * Сначала пробует refresh token, затем — повторную авторизацию по ИНН и паролю.
+   *
+   * @param failedToken Токен, с которым запрос получил отказ
+   */
+  private async renewSession(failedToken: string | null, options: RequestOptions = {}): Promise<void> {
+    // Сессию уже обновил параллельный запрос
+    if (this.authState.accessToken && this.authState.accessToken !== failedToken) {
+      return;
     }
 
-    this.saveTokensToFile();
-
-    return response;
+    await this.shareRenewal(() => this.performSessionRenewal({ timeout: options.timeout }), options);
   }
 
   /**
-   * Обновление access token через refresh token
+   * Запускает автоматическое обновление сессии или присоединяется к уже идущему
    */
-  async refreshAccessToken(): Promise<TokenResponse> {
-    if (!this.authState.refreshToken) {
-      throw new NalogApiError('Refresh token отсутствует');
+  private async shareRenewal(renew: () => Promise<TokenResponse>, options: RequestOptions): Promise<void> {
+    if (!this.pendingRenewal) {
+      this.pendingRenewal = renew().finally(() => {
+        this.pendingRenewal = null;
+      });
     }
+    await this.waitShared(this.pendingRenewal, options.signal);
+  }
 
-    const response = await this.request<TokenResponse>(
+  /**
+   * Выполняет обновление сессии
+   */
+  private async performSessionRenewal(options: RequestOptions): Promise<TokenResponse> {
+    const { inn, password } = this.authParams;
+
+    if (this.authState.refreshToken) {
+      try {
+        return await this.refreshSession(options);
+      } catch (error) {
+        if (!inn || !password) {
+          throw error;
+        }
+      }
+    }
+
+    if (!inn || !password) {
+      throw new NalogApiError(
+        'Сессия недействительна, а параметры для повторной авторизации не указаны'
+      );
+    }
+
+    this.logger.info('Re-authenticating by INN and password', { event: 'session.reauth', inn });
+    const response = await this.authByInn(inn, password, options);
+    await this.notifySessionRenewed(response, 'reauth');
+    return response;
+  }
+
+  /**
+   * Автоматически обновляет токен и сообщает об этом onSessionRenewed
+   */
+  private async refreshSession(options: RequestOptions): Promise<TokenResponse> {
+    const response = await this.refreshAccessToken(options);
+    await this.notifySessionRenewed(response, 'refresh');
+    return response;
+  }
+
+  /**
+   * Вызывает onSessionRenewed; ошибка обработчика только записывается в лог,
+   * так как сессия к этому моменту уже обновлена и сохранена
+   */
+  private async notifySessionRenewed(response: TokenResponse, reason: SessionRenewalReason): Promise<void> {
+    try {
+      await this.onSessionRenewed?.(response, reason);
+    } catch (error) {
+      this.logger.error('onSessionRenewed callback failed', {
+        event: 'session.renewed.failed',
+        reason,
+        error: redactError(error),
+      });
+    }
+  }
+
+  /**
+   * Проверяет и обновляет токен при необходимости
+   */
+  private async ensureValidToken(options: RequestOptions = {}): Promise<void> {
+    const shared: RequestOptions = { timeout: options.timeout };
+
+    if (!this.authState.accessToken && this.authState.refreshToken) {
+      await this.shareRenewal(() => this.refreshSession(shared), options);
+      return;
+    }
+
+    if (!this.authState.accessToken) {
+      // Параллельные запросы без токена ждут одну общую авторизацию
+      if (!this.pendingAuth) {
+        this.pendingAuth = this.auth(shared).finally(() => {
+          this.pendingAuth = null;
+        });
+      }
+      await this.waitShared(this.pendingAuth, options.signal);
+      return;
+    }
+
+    if (this.authState.tokenExpireIn) {
+      const now = new Date();
+      const expireTime = new Date(this.authState.tokenExpireIn);
+      // Обновляем за 5 минут до истечения
+      if (now >= new Date(expireTime.getTime() - 5 * 60 * 1000)) {
+        await this.shareRenewal(() => this.refreshSession(shared), options);
+      }
+    }
+  }
+
+  /**
+   * Авторизация в API
+   *
+   * @throws {NalogApiError} При ошибке авторизации
+   */
+  async auth(options: RequestOptions = {}): Promise<TokenResponse> {
+    await this.waitSessionRestore(!(this.authParams.inn && this.authParams.password));
+
+    if (this.authState.refreshToken) {
+      return this.refreshAccessToken(options);
+    }
+
+    if (this.authParams.inn && this.authParams.password) {
+      return this.authByInn(this.authParams.inn, this.authParams.password, options);
+    }
+
+    if (this.authParams.phone) {
+      throw new NalogApiError(
+        'Для авторизации по телефону используйте методы requestSmsCode() и authByPhone()'
+      );
+    }
+
+    throw new NalogApiError(
+      'Не указаны параметры авторизации. Укажите inn+password или phone'
+    );
+  }
+
+  /**
+   * Авторизация по ИНН и паролю от ЛК ФНС
+   */
+  async authByInn(inn: string, password: string, options: RequestOptions = {}): Promise<TokenResponse> {
+    const response = await this.logAuth('inn', { inn }, () => this.request<TokenResponse>(
       'POST',
-      'auth/token',
+      'auth/lkfl',
       {
-        refreshToken: this.authState.refreshToken,
+        inn,
+        password,
         deviceInfo: this.deviceInfo,
       },
-      false
+      false,
+      options
+    ));
+
+    this.authState.accessToken = response.token;
+    this.authState.refreshToken = response.refreshToken;
+    this.authState.tokenExpireIn = new Date(response.tokenExpireIn);
+    this.authState.inn = inn;
+    // Новая сессия заменяет сохранённую, даже если её не удалось прочитать
+    this.sessionRestore = Promise.resolve(true);
+
+    await this.saveTokens();
+
+    return response;
+  }
+
+  /**
+   * Выполняет авторизацию с записью результата в лог
+   */
+  private async logAuth(
+    method: 'inn' | 'phone',
+    context: Record<string, unknown>,
+    authorize: () => Promise<TokenResponse>
+  ): Promise<TokenResponse> {
+    try {
+      const response = await authorize();
+      this.logger.info('Authenticated', {
+        event: 'auth',
+        method,
+        ...context,
+        expiresAt: response.tokenExpireIn,
+      });
+      return response;
+    } catch (error) {
+      this.logger.warn('Authentication failed', { event: 'auth.failed', method, ...context, error: redactError(error) });
+      throw error;
+    }
+  }
+
+  /**
+   * Запрос SMS-кода для авторизации по телефону
+   *
+   * @returns challengeToken для последующей авторизации
+   */
+  async requestSmsCode(phone: string, options: RequestOptions = {}): Promise<string> {
+    const normalizedPhone = this.normalizePhone(phone);
+
+    // Используем v2 API для запроса SMS
+    const endpoint = 'auth/challenge/sms/start';
+    const url = this.baseUrl.replace('/v1', '/v2') + '/' + endpoint;
+
+    const result = await this.execute(
+      {
+        method: 'POST',
+        endpoint,
+        url,
+        headers: {
+          'Content-Type': 'application/json',
+          Accept: 'application/json, text/plain, */*',
+        },
+        body: {
+          phone: normalizedPhone,
+          requireTpToBeActive: true,
+          deviceData: {
+            sourceType: SourceType.WEB,
+          },
+        },
+        attempt: 1,
+      },
+      options,
+      (response) => this.readBody(response)
     );
 
+    if (result.error) {
+      throw result.error;
+    }
+
+    const challengeToken = (result.data as { challengeToken?: string } | null)?.challengeToken;
+    if (!challengeToken) {
+      throw new NalogApiError('Сервер не вернул challengeToken', undefined, result.data, {
+        status: result.response.status,
+        endpoint,
+      });
+    }
+
+    this.logger.info('SMS code requested', { event: 'auth.sms', phone: maskPhone(normalizedPhone) });
+
+    return challengeToken;
+  }
+
+  /**
+   * Авторизация по телефону с SMS-кодом
+   */
+  async authByPhone(
+    phone: string,
+    challengeToken: string,
+    code: string,
+    options: RequestOptions = {}
+  ): Promise<TokenResponse> {
+    const normalizedPhone = this.normalizePhone(phone);
+
+    const response = await this.logAuth('phone', { phone: maskPhone(normalizedPhone) }, () => this.request<TokenResponse>(
+      'POST',
+      'auth/challenge/sms/verify',
+      {
+        phone: normalizedPhone,
+        code,
+        challengeToken,
+        deviceInfo: this.deviceInfo,
+      },
+      false,
+      options
+    ));
+
+    this.authState.accessToken = response.token;
+    this.authState.refreshToken = response.refreshToken;
+    this.authState.tokenExpireIn = new Date(response.tokenExpireIn);
+
+    // ИНН приходит в profile из ответа
+    if (response.profile?.inn) {
+      this.authState.inn = response.profile.inn;
+    }
+    this.sessionRestore = Promise.resolve(true);
+
+    await this.saveTokens();
+
+    return response;
+  }
+
+  /**
+   * Обновление access token через refresh token
+   *
+   * Отмена через options.signal прекращает ожидание, но не сам запрос:
+   * его результат сохранится и пригодится следующим запросам.
+   */
+  async refreshAccessToken(options: RequestOptions = {}): Promise<TokenResponse> {
+    if (!this.authState.refreshToken) {
+      throw new NalogApiError('Refresh token отсутствует');
+    }
+
+    // Refresh token одноразовый: параллельные вызовы ждут один общий запрос,
+    // иначе все обновления, кроме первого, завершатся ошибкой
+    if (!this.pendingRefresh) {
+      this.pendingRefresh = this.performTokenRefresh(this.authState.refreshToken, {
+        timeout: options.timeout,
+      }).finally(() => {
+        this.pendingRefresh = null;
+      });
+    }
+    return this.waitShared(this.pendingRefresh, options.signal);
+  }
+
+  /**
+   * Выполняет запрос на обновление токена
+   */
+  private async performTokenRefresh(refreshToken: string, options: RequestOptions): Promise<TokenResponse> {
+    let response: TokenResponse;
+    try {
+      response = await this.request<TokenResponse>(
+        'POST',
+        'auth/token',
+        {
+          refreshToken,
+          deviceInfo: this.deviceInfo,
+        },
+        false,
+        options
+      );
+    } catch (error) {
+      this.logger.warn('Token refresh failed', { event: 'token.refresh.failed', error: redactError(error) });
+      throw error;
+    }
+
+    this.logger.info('Access token refreshed', { event: 'token.refresh', expiresAt: response.tokenExpireIn });
+
     this.authState.accessToken = response.token;
     this.authState.refreshToken = response.refreshToken;
     this.authState.tokenExpireIn = new Date(response.tokenExpireIn);
 
-    this.saveTokensToFile();
+    await this.saveTokens();
 
     return response;
   }
@@ -487,14 +1242,50 @@ export class NalogApi {
   /**
    * Получение информации о пользователе
    */
-  async getUserInfo(): Promise<UserInfo> {
-    const response = await this.request<UserInfo>('GET', 'user');
+  async getUserInfo(options: RequestOptions = {}): Promise<UserInfo> {
+    const response = await this.request<UserInfo>('GET', 'user', undefined, true, options);
     if (response.inn) {
       this.authState.inn = response.inn;
     }
     return response;
   }
 
+  /**
+   * Поиск организации или ИП по ИНН
+   *
+   * Использует тот же метод API, что и веб-кабинет при вводе ИНН клиента.
+   *
+   * @returns Сведения о контрагенте или null, если он не найден
+   * @throws {ValidationError} Если ИНН не проходит проверку контрольных цифр
+   *
+   * @example
+   * ```typescript
+   * const company = await api.findCounterparty('7707083893');
+   * console.log(company?.name); // ПАО СБЕРБАНК
+   * ```
+   */
+  async findCounterparty(inn: string, options: RequestOptions = {}): Promise<Counterparty | null> {
+    if (!isValidInn(inn)) {
+      throw new ValidationError(`Некорректный ИНН: ${inn}`, 'INVALID_INN');
+    }
+
+    try {
+      const response = await this.request<Counterparty | null>(
+        'GET',
+        `company/${inn}`,
+        undefined,
+        true,
+        options
+      );
+      return response?.name ? response : null;
+    } catch (error) {
+      if (error instanceof NalogApiError && error.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
   /**
    * Получение текущего ИНН
    */
@@ -520,22 +1311,32 @@ export class NalogApi {
    *   client: {
    *     incomeType: IncomeType.FROM_LEGAL_ENTITY,
    *     displayName: 'ООО "Компания"',
-   *     inn: '7700000000',
+   *     inn: '7707083893',
    *   },
    * });
    * ```
    */
-  async addIncome(params: CreateIncomeParams): Promise<Receipt> {
+  async addIncome(params: CreateIncomeParams, options: RequestOptions = {}): Promise<Receipt> {
     const {
       name,
       amount,
       quantity = 1,
       operationTime = new Date(),
       paymentType = PaymentType.CASH,
-      client,
       ignoreMaxTotalIncomeRestriction = false,
     } = params;
 
+    // Клиента проверяем после обращения к справочнику, остальное — до него
+    if (this.validateIncome) {
+      assertValid(validateCreateIncomeParams({ ...params, client: undefined }, new Date(), this.timezone));
+    }
+
+    const client = await this.resolveClient(params, options);
+
+    if (this.validateIncome) {
+      assertValid(validateIncomeClient(client));
+    }
+
     const incomeClient: IncomeClient = {
       incomeType: client?.incomeType || IncomeType.FROM_INDIVIDUAL,
       displayName: client?.displayName || null,
@@ -543,7 +1344,9 @@ export class NalogApi {
       inn: client?.inn || null,
     };
 
-    const requestBody = {
+    const price = toKopecks(amount);
+
+    const requestBody: IncomeRequestBody = {
       operationTime: this.formatDate(operationTime),
       requestTime: this.formatDate(),
       paymentType,
@@ -552,30 +1355,40 @@ export class NalogApi {
       services: [
         {
           name,
-          amount: String(amount),
+          amount: formatKopecks(price),
           quantity,
         },
       ],
-      totalAmount: String(amount * quantity),
+      totalAmount: formatKopecks(multiplyKopecks(price, quantity)),
     };
 
-    const response = await this.request<IncomeResult>('POST', 'income', requestBody);
-
-    return this.buildReceipt(response.approvedReceiptUuid);
+    return this.registerIncome(requestBody, params.idempotencyKey, options);
   }
 
   /**
    * Создание чека с несколькими позициями
    */
-  async addMultipleIncome(params: CreateMultipleIncomeParams): Promise<Receipt> {
+  async addMultipleIncome(
+    params: CreateMultipleIncomeParams,
+    options: RequestOptions = {}
+  ): Promise<Receipt> {
     const {
       services,
       operationTime = new Date(),
       paymentType = PaymentType.CASH,
-      client,
       ignoreMaxTotalIncomeRestriction = false,
     } = params;
 
+    if (this.validateIncome) {
+      assertValid(validateCreateMultipleIncomeParams({ ...params, client: undefined }, new Date(), this.timezone));
+    }
+
+    const client = await this.resolveClient(params, options);
+
+    if (this.validateIncome) {
+      assertValid(validateIncomeClient(client));
+    }
+
     const incomeClient: IncomeClient = {
       incomeType: client?.incomeType || IncomeType.FROM_INDIVIDUAL,
       displayName: client?.displayName || null,
@@ -583,111 +1396,408 @@ export class NalogApi {
       inn: client?.inn || null,
     };
 
-    const totalAmount = services.reduce(
-      (sum: number, s: IncomeService) => sum + s.amount * (s.quantity || 1),
-      0
-    );
-
-    const requestBody = {
+    const requestBody: IncomeRequestBody = {
       operationTime: this.formatDate(operationTime),
       requestTime: this.formatDate(),
       paymentType,
       ignoreMaxTotalIncomeRestriction,
       client: incomeClient,
-      services: services.map((s: IncomeService) => ({
-        name: s.name,
-        amount: String(s.amount),
-        quantity: s.quantity || 1,
-      })),
-      totalAmount: String(totalAmount),
+      ...this.buildServices(services),
     };
 
-    const response = await this.request<IncomeResult>('POST', 'income', requestBody);
-
-    return this.buildReceipt(response.approvedReceiptUuid);
+    return this.registerIncome(requestBody, params.idempotencyKey, options);
   }
 
   /**
-   * Отмена чека
-   *
-   * @example
-   * ```typescript
-   * await api.cancelIncome({
-   *   receiptUuid: '20hykdxbp8',
-   *   reason: CancelReason.REFUND,
-   * });
-   * ```
+   * Форматирует позиции для API и считает итог
    */
-  async cancelIncome(params: CancelIncomeParams): Promise<IncomeResult> {
-    const {
-      receiptUuid,
-      reason,
-      comment,
-      operationTime = new Date(),
-      requestTime = new Date(),
-    } = params;
+  private buildServices(services: IncomeService[]): Pick<IncomeRequestBody, 'services' | 'totalAmount'> {
+    // Суммируем в копейках, чтобы избежать ошибок округления float
+    const items = services.map((s: IncomeService) => ({
+      name: s.name,
+      price: toKopecks(s.amount),
+      quantity: s.quantity || 1,
+    }));
+    const totalAmount = items.reduce(
+      (sum, item) => sum + multiplyKopecks(item.price, item.quantity),
+      0n
+    );
 
-    const requestBody = {
-      receiptUuid,
-      comment: comment || this.getCancelReasonText(reason),
-      operationTime: this.formatDate(operationTime),
-      requestTime: this.formatDate(requestTime),
-      partnerCode: null,
+    return {
+      services: items.map((item) => ({
+        name: item.name,
+        amount: formatKopecks(item.price),
+        quantity: item.quantity,
+      })),
+      totalAmount: formatKopecks(totalAmount),
     };
-
-    return this.request<IncomeResult>('POST', 'cancel', requestBody);
   }
 
   /**
-   * Получение текста причины отмены
+   * Собирает данные клиента: из справочника (clientId) и по ИНН (resolveClientName)
+   *
+   * Наименование ищется только для юридических лиц и ИП (FROM_LEGAL_ENTITY):
+   * ИНН физического лица в справочнике организаций не найдётся.
+   *
+   * @throws {ValidationError} Если клиент или контрагент с таким ИНН не найден
    */
-  private getCancelReasonText(reason: CancelReason): string {
-    switch (reason) {
-      case CancelReason.CANCEL:
-        return 'Чек сформирован ошибочно';
-      case CancelReason.REFUND:
-        return 'Возврат средств';
-      default:
-        return 'Отмена чека';
+  private async resolveClient(
+    params: Pick<CreateIncomeParams, 'client' | 'clientId' | 'resolveClientName'>,
+    options: RequestOptions
+  ): Promise<Partial<IncomeClient> | undefined> {
+    const { clientId, resolveClientName } = params;
+    let client = params.client;
+
+    if (clientId !== undefined) {
+      const saved = await this.getClient(clientId, options);
+      if (!saved) {
+        throw new ValidationError(`Клиент с ID ${clientId} не найден в справочнике`, 'CLIENT_NOT_FOUND');
+      }
+      const { id: _id, ...fields } = saved;
+      client = { ...fields, ...client };
     }
-  }
 
-  /**
-   * Формирует объект Receipt с ссылками
-   */
-  private buildReceipt(receiptUuid: string): Receipt {
-    const inn = this.authState.inn;
-    if (!inn) {
-      throw new NalogApiError('ИНН не определён. Выполните авторизацию или установите ИНН вручную через setInn()');
+    if (
+      !resolveClientName ||
+      client?.incomeType !== IncomeType.FROM_LEGAL_ENTITY ||
+      !client.inn ||
+      client.displayName
+    ) {
+      return client;
     }
 
-    return {
-      receiptUuid,
-      printUrl: `${this.baseUrl}/receipt/${inn}/${receiptUuid}/print`,
-      jsonUrl: `${this.baseUrl}/receipt/${inn}/${receiptUuid}/json`,
-    };
+    const counterparty = await this.findCounterparty(client.inn, options);
+    if (!counterparty) {
+      throw new ValidationError(`Контрагент с ИНН ${client.inn} не найден`, 'COUNTERPARTY_NOT_FOUND');
+    }
+
+    return { ...client, displayName: counterparty.name };
+  }
+
+  /**
+   * Регистрирует чек с учётом ключа идемпотентности
+   *
+   * Перед отправкой в журнал пишется незавершённая запись. Если ответ
+   * не был получен (таймаут, обрыв соединения), повторный вызов с тем же
+   * ключом сначала ищет чек среди недавних доходов и отправляет запрос
+   * заново (с тем же временем операции), только если чек не найден.
+   *
+   * Параллельные вызовы с одним ключом выполняются по очереди: следующий
+   * дожидается результата предыдущего и берёт чек из журнала.
+   */
+  private async registerIncome(
+    requestBody: IncomeRequestBody,
+    idempotencyKey: string | undefined,
+    options: RequestOptions
+  ): Promise<Receipt> {
+    if (!idempotencyKey) {
+      const response = await this.request<IncomeResult>('POST', 'income', requestBody, true, options);
+      return this.buildReceipt(response.approvedReceiptUuid);
+    }
+
+    const key = idempotencyKey;
+    const previous = this.pendingIncomes.get(key) ?? Promise.resolve();
+    const current = previous
+      .catch(() => undefined)
+      .then(() => this.registerIdempotentIncome(requestBody, key, options));
+    this.pendingIncomes.set(key, current);
+
+    try {
+      return await current;
+    } finally {
+      if (this.pendingIncomes.get(key) === current) {
+        this.pendingIncomes.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Регистрирует чек по ключу идемпотентности (вызовы с одним ключом не пересекаются)
+   */
+  private async registerIdempotentIncome(
+    requestBody: IncomeRequestBody,
+    idempotencyKey: string,
+    options: RequestOptions
+  ): Promise<Receipt> {
+    let entry = await this.incomeLedger.get(idempotencyKey);
+
+    if (entry) {
+      if (!this.isSameIncome(entry, requestBody)) {
+        throw new NalogApiError(
+          `Ключ идемпотентности "${idempotencyKey}" уже использован для чека с другими позициями или суммой`,
+          'IDEMPOTENCY_KEY_CONFLICT'
+        );
+      }
+
+      if (entry.receiptUuid) {
+        return this.buildReceipt(entry.receiptUuid);
+      }
+
+      const receiptUuid = await this.findRegisteredIncome(entry, options);
+      if (receiptUuid) {
+        await this.incomeLedger.set(idempotencyKey, { ...entry, receiptUuid });
+        return this.buildReceipt(receiptUuid);
+      }
+
+      requestBody = { ...requestBody, operationTime: entry.operationTime };
+    } else {
+      entry = {
+        receiptUuid: null,
+        operationTime: requestBody.operationTime,
+        totalAmount: requestBody.totalAmount,
+        services: requestBody.services,
+        createdAt: new Date().toISOString(),
+      };
+      await this.incomeLedger.set(idempotencyKey, entry);
+    }
+
+    let response: IncomeResult;
+    try {
+      response = await this.request<IncomeResult>('POST', 'income', requestBody, true, options);
+    } catch (error) {
+      // Ответ 4xx означает, что чек точно не создан, и ключ можно использовать снова
+      if (error instanceof NalogApiError && error.status !== undefined && error.status < 500) {
+        await this.incomeLedger.delete(idempotencyKey);
+      }
+      throw error;
+    }
+
+    await this.incomeLedger.set(idempotencyKey, {
+      ...entry,
+      receiptUuid: response.approvedReceiptUuid,
+    });
+
+    return this.buildReceipt(response.approvedReceiptUuid);
+  }
+
+  /**
+   * Ищет среди недавних доходов чек, совпадающий с записью журнала
+   *
+   * @returns UUID чека или null, если чек не найден
+   */
+  private async findRegisteredIncome(
+    entry: IncomeLedgerEntry,
+    options: RequestOptions
+  ): Promise<string | null> {
+    const operationTime = new Date(entry.operationTime).getTime();
+
+    for await (const income of this.iterateIncomes({
+      from: new Date(operationTime - 60 * 1000),
+      to: new Date(operationTime + 60 * 1000),
+    }, options)) {
+      const incomeTime = new Date(income.operationTime).getTime();
+      if (Math.abs(incomeTime - operationTime) < 1000 && this.isSameIncome(entry, income)) {
+        return income.approvedReceiptUuid;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Сравнивает сумму и позиции двух чеков
+   */
+  private isSameIncome(a: ComparableIncome, b: ComparableIncome): boolean {
+    if (toKopecks(a.totalAmount) !== toKopecks(b.totalAmount) || a.services.length !== b.services.length) {
+      return false;
+    }
+
+    return a.services.every((service, index) => {
+      const other = b.services[index];
+      return (
+        service.name === other.name &&
+        toKopecks(service.amount) === toKopecks(other.amount) &&
+        service.quantity === other.quantity
+      );
+    });
+  }
+
+  /**
+   * Отмена чека
+   *
+   * @example
+   * ```typescript
+   * await api.cancelIncome({
+   *   receiptUuid: '20hykdxbp8',
+   *   reason: CancelReason.REFUND,
+   * });
+   * ```
+   */
+  async cancelIncome(params: CancelIncomeParams, options: RequestOptions = {}): Promise<IncomeResult> {
+    const {
+      receiptUuid,
+      reason,
+      comment,
+      operationTime = new Date(),
+      requestTime = new Date(),
+    } = params;
+
+    const requestBody = {
+      receiptUuid,
+      comment: comment || this.getCancelReasonText(reason),
+      operationTime: this.formatDate(operationTime),
+      requestTime: this.formatDate(requestTime),
+      partnerCode: null,
+    };
+
+    return this.request<IncomeResult>('POST', 'cancel', requestBody, true, options);
+  }
+
+  /**
+   * Получение текста причины отмены
+   */
+  private getCancelReasonText(reason: CancelReason): string {
+    switch (reason) {
+      case CancelReason.CANCEL:
+        return 'Чек сформирован ошибочно';
+      case CancelReason.REFUND:
+        return 'Возврат средств';
+      default:
+        return 'Отмена чека';
+    }
+  }
+
+  /**
+   * Формирует объект Receipt с ссылками
+   */
+  private buildReceipt(receiptUuid: string): Receipt {
+    const inn = this.authState.inn;
+    if (!inn) {
+      throw new NalogApiError('ИНН не определён. Выполните авторизацию или установите ИНН вручную через setInn()');
+    }
+
+    return {
+      receiptUuid,
+      printUrl: `${this.baseUrl}/receipt/${inn}/${receiptUuid}/print`,
+      jsonUrl: `${this.baseUrl}/receipt/${inn}/${receiptUuid}/json`,
+    };
   }
 
   /**
    * Получение ссылки на печатную форму чека
    */
   getReceiptPrintUrl(receiptUuid: string, inn?: string): string {
+    return `${this.baseUrl}/${this.getReceiptPath(receiptUuid, inn)}/print`;
+  }
+
+  /**
+   * Путь к чеку в API: receipt/{inn}/{receiptUuid}
+   *
+   * Идентификатор чека и ИНН проверяются, чтобы значение из запроса
+   * пользователя не могло указать на другой метод API.
+   */
+  private getReceiptPath(receiptUuid: string, inn?: string): string {
     const receiptInn = inn || this.authState.inn;
     if (!receiptInn) {
       throw new NalogApiError('ИНН не указан');
     }
-    return `${this.baseUrl}/receipt/${receiptInn}/${receiptUuid}/print`;
+    if (!/^\d+$/.test(receiptInn)) {
+      throw new ValidationError(`Некорректный ИНН: ${receiptInn}`, 'INVALID_INN');
+    }
+    if (typeof receiptUuid !== 'string' || !/^[0-9a-z]+$/i.test(receiptUuid)) {
+      throw new ValidationError(`Некорректный идентификатор чека: ${receiptUuid}`, 'INVALID_RECEIPT_UUID');
+    }
+    return `receipt/${receiptInn}/${receiptUuid}`;
+  }
+
+  /**
+   * Загрузка печатной формы чека (изображение или PDF)
+   *
+   * Печатная форма доступна только с авторизацией, поэтому ссылку из
+   * getReceiptPrintUrl() нельзя просто отдать клиенту — загрузите файл и
+   * передайте его содержимое.
+   *
+   * @example
+   * ```typescript
+   * const file = await api.downloadReceipt('2026u7ia1u');
+   * await mailer.send({ attachments: [{ filename: file.fileName, content: file.data }] });
+   * ```
+   */
+  async downloadReceipt(
+    receiptUuid: string,
+    inn?: string,
+    options: RequestOptions = {}
+  ): Promise<ReceiptFile> {
+    const { data, contentType } = await this.request<BinaryBody>(
+      'GET',
+      `${this.getReceiptPath(receiptUuid, inn)}/print`,
+      undefined,
+      true,
+      options,
+      'binary'
+    );
+
+    return {
+      data,
+      contentType,
+      fileName: `receipt-${receiptUuid}.${this.getFileExtension(contentType)}`,
+    };
+  }
+
+  /**
+   * Сохранение печатной формы чека в файл
+   *
+   * @example
+   * ```typescript
+   * await api.saveReceiptToFile('2026u7ia1u', './receipts/2026u7ia1u.png');
+   * ```
+   */
+  async saveReceiptToFile(
+    receiptUuid: string,
+    filePath: string,
+    inn?: string,
+    options: RequestOptions = {}
+  ): Promise<ReceiptFile> {
+    const file = await this.downloadReceipt(receiptUuid, inn, options);
+    await fs.promises.writeFile(filePath, file.data);
+    return file;
+  }
+
+  /**
+   * Отправка печатной формы чека в HTTP-ответ (http.ServerResponse, Express и т.п.)
+   *
+   * @example
+   * ```typescript
+   * app.get('/receipts/:uuid', async (req, res) => {
+   *   await api.sendReceipt(req.params.uuid, res);
+   * });
+   * ```
+   */
+  async sendReceipt(
+    receiptUuid: string,
+    response: ReceiptHttpResponse,
+    inn?: string,
+    options: RequestOptions = {}
+  ): Promise<ReceiptFile> {
+    const file = await this.downloadReceipt(receiptUuid, inn, options);
+    response.setHeader('Content-Type', file.contentType);
+    response.setHeader('Content-Length', String(file.data.length));
+    response.setHeader('Content-Disposition', `inline; filename="${file.fileName}"`);
+    response.end(file.data);
+    return file;
+  }
+
+  /**
+   * Определяет расширение файла по типу содержимого
+   */
+  private getFileExtension(contentType: string): string {
+    const mimeType = contentType.split(';')[0].trim().toLowerCase();
+    const extensions: Record<string, string> = {
+      'application/pdf': 'pdf',
+      'image/png': 'png',
+      'image/jpeg': 'jpg',
+      'image/gif': 'gif',
+      'image/webp': 'webp',
+      'image/svg+xml': 'svg',
+    };
+    return extensions[mimeType] || 'bin';
   }
 
   /**
    * Получение ссылки на JSON чека
    */
   getReceiptJsonUrl(receiptUuid: string, inn?: string): string {
-    const receiptInn = inn || this.authState.inn;
-    if (!receiptInn) {
-      throw new NalogApiError('ИНН не указан');
-    }
-    return `${this.baseUrl}/receipt/${receiptInn}/${receiptUuid}/json`;
+    return `${this.baseUrl}/${this.getReceiptPath(receiptUuid, inn)}/json`;
   }
 
   /**
@@ -700,12 +1810,523 @@ export class NalogApi {
    * console.log(receipt.services);
    * ```
    */
-  async getReceiptJson(receiptUuid: string, inn?: string): Promise<ReceiptJson> {
-    const receiptInn = inn || this.authState.inn;
-    if (!receiptInn) {
-      throw new NalogApiError('ИНН не указан');
+  async getReceiptJson(
+    receiptUuid: string,
+    inn?: string,
+    options: RequestOptions = {}
+  ): Promise<ReceiptJson> {
+    return this.request<ReceiptJson>(
+      'GET',
+      `${this.getReceiptPath(receiptUuid, inn)}/json`,
+      undefined,
+      true,
+      options
+    );
+  }
+
+  /**
+   * Получение страницы списка чеков
+   *
+   * @example
+   * ```typescript
+   * const page = await api.listIncomes({
+   *   from: new Date('2025-01-01'),
+   *   to: new Date('2025-01-31'),
+   *   status: IncomeStatusFilter.REGISTERED,
+   * });
+   * console.log(page.content.length, page.hasMore);
+   * ```
+   */
+  async listIncomes(
+    params: ListIncomesParams = {},
+    options: RequestOptions = {}
+  ): Promise<IncomeListResponse> {
+    const {
+      from,
+      to,
+      sortBy = IncomeSortBy.OPERATION_TIME_DESC,
+      offset = 0,
+      limit = 50,
+      status,
+    } = params;
+
+    const query = new URLSearchParams();
+    if (from) {
+      query.set('from', this.formatDate(from));
+    }
+    if (to) {
+      query.set('to', this.formatDate(to));
+    }
+    query.set('offset', String(offset));
+    query.set('sortBy', sortBy);
+    query.set('limit', String(limit));
+    if (status) {
+      query.set('receiptType', status);
+    }
+
+    return this.request<IncomeListResponse>(
+      'GET',
+      `incomes?${query.toString()}`,
+      undefined,
+      true,
+      options
+    );
+  }
+
+  /**
+   * Обход всех чеков за период с автоматической подгрузкой страниц
+   *
+   * @example
+   * ```typescript
+   * for await (const income of api.iterateIncomes({ from: new Date('2025-01-01') })) {
+   *   console.log(income.approvedReceiptUuid, income.totalAmount);
+   * }
+   * ```
+   */
+  async *iterateIncomes(
+    params: ListIncomesParams = {},
+    options: RequestOptions = {}
+  ): AsyncGenerator<IncomeListItem, void, undefined> {
+    let offset = params.offset ?? 0;
+
+    while (true) {
+      const page = await this.listIncomes({ ...params, offset }, options);
+      yield* page.content;
+
+      if (!page.hasMore || page.content.length === 0) {
+        return;
+      }
+      offset += page.content.length;
     }
-    return this.request<ReceiptJson>('GET', `receipt/${receiptInn}/${receiptUuid}/json`);
+  }
+
+  /**
+   * Получение налоговых начислений за текущий период
+   *
+   * @example
+   * ```typescript
+   * const taxes = await api.getTaxes();
+   * console.log('К оплате:', taxes.totalForPayment);
+   * console.log('Задолженность:', taxes.debt);
+   * ```
+   */
+  async getTaxes(options: RequestOptions = {}): Promise<TaxSummary> {
+    return this.request<TaxSummary>('GET', 'taxes', undefined, true, options);
+  }
+
+  /**
+   * Получение истории налоговых начислений по периодам
+   *
+   * @param oktmo ОКТМО региона (по умолчанию все регионы)
+   */
+  async getTaxHistory(oktmo?: string, options: RequestOptions = {}): Promise<TaxPeriodRecord[]> {
+    const response = await this.request<TaxHistoryResponse>(
+      'POST',
+      'taxes/history',
+      { oktmo: oktmo || null },
+      true,
+      options
+    );
+    return response?.records || [];
+  }
+
+  /**
+   * Получение начисления за конкретный налоговый период
+   *
+   * @param taxPeriodId ID налогового периода (YYYYMM)
+   * @returns Начисление или null, если за период ничего не начислено
+   *
+   * @example
+   * ```typescript
+   * const period = await api.getTaxPeriod(202501);
+   * console.log(period?.taxBaseAmount, period?.taxAmount);
+   * ```
+   */
+  async getTaxPeriod(
+    taxPeriodId: number,
+    oktmo?: string,
+    options: RequestOptions = {}
+  ): Promise<TaxPeriodRecord | null> {
+    const records = await this.getTaxHistory(oktmo, options);
+    return records.find((record) => record.taxPeriodId === taxPeriodId) || null;
+  }
+
+  /**
+   * Выставление счёта на оплату
+   *
+   * @example
+   * ```typescript
+   * const invoice = await api.createInvoice({
+   *   services: [{ name: 'Разработка сайта', amount: 50000 }],
+   *   client: {
+   *     incomeType: IncomeType.FROM_LEGAL_ENTITY,
+   *     displayName: 'ООО "Компания"',
+   *     inn: '7707083893',
+   *   },
+   * });
+   * ```
+   */
+  async createInvoice(params: CreateInvoiceParams, options: RequestOptions = {}): Promise<Invoice> {
+    const { services, paymentType = PaymentType.ACCOUNT } = params;
+
+    if (this.validateIncome) {
+      assertValid(validateCreateMultipleIncomeParams({ services, paymentType }));
+    }
+
+    const client = await this.resolveClient(params, options);
+
+    if (this.validateIncome) {
+      assertValid(validateIncomeClient(client));
+    }
+
+    return this.request<Invoice>(
+      'POST',
+      'invoice',
+      {
+        paymentType,
+        client: {
+          incomeType: client?.incomeType || IncomeType.FROM_INDIVIDUAL,
+          displayName: client?.displayName || null,
+          contactPhone: client?.contactPhone || null,
+          inn: client?.inn || null,
+        },
+        requestTime: this.formatDate(),
+        ...this.buildServices(services),
+      },
+      true,
+      options
+    );
+  }
+
+  /**
+   * Получение страницы списка счетов
+   */
+  async listInvoices(
+    params: ListInvoicesParams = {},
+    options: RequestOptions = {}
+  ): Promise<InvoiceListResponse> {
+    const { from, to, status, offset = 0, limit = 50 } = params;
+
+    const query = new URLSearchParams();
+    if (from) {
+      query.set('from', this.formatDate(from));
+    }
+    if (to) {
+      query.set('to', this.formatDate(to));
+    }
+    query.set('offset', String(offset));
+    query.set('limit', String(limit));
+    if (status) {
+      query.set('status', status);
+    }
+
+    return this.request<InvoiceListResponse>(
+      'GET',
+      `invoices?${query.toString()}`,
+      undefined,
+      true,
+      options
+    );
+  }
+
+  /**
+   * Получение счёта
+   */
+  async getInvoice(invoiceId: string, options: RequestOptions = {}): Promise<Invoice> {
+    return this.request<Invoice>('GET', `invoice/${invoiceId}`, undefined, true, options);
+  }
+
+  /**
+   * Отмена счёта
+   */
+  async cancelInvoice(invoiceId: string, options: RequestOptions = {}): Promise<Invoice> {
+    return this.request<Invoice>(
+      'POST',
+      `invoice/${invoiceId}/cancel`,
+      { requestTime: this.formatDate() },
+      true,
+      options
+    );
+  }
+
+  /**
+   * Отметка счёта как оплаченного: регистрирует доход и формирует чек
+   *
+   * @example
+   * ```typescript
+   * const receipt = await api.markInvoicePaid(invoice.invoiceId);
+   * console.log(receipt.invoiceId, receipt.printUrl);
+   * ```
+   */
+  async markInvoicePaid(
+    invoiceId: string,
+    params: PayInvoiceParams = {},
+    options: RequestOptions = {}
+  ): Promise<InvoiceReceipt> {
+    const { operationTime = new Date(), paymentType } = params;
+
+    const response = await this.request<IncomeResult>(
+      'POST',
+      `invoice/${invoiceId}/approve`,
+      {
+        operationTime: this.formatDate(operationTime),
+        requestTime: this.formatDate(),
+        ...(paymentType && { paymentType }),
+      },
+      true,
+      options
+    );
+
+    return { ...this.buildReceipt(response.approvedReceiptUuid), invoiceId };
+  }
+
+  /**
+   * Получение списка платёжных реквизитов (банковских счетов и телефонов для СБП)
+   */
+  async listPaymentDetails(options: RequestOptions = {}): Promise<PaymentDetails[]> {
+    const response = await this.request<PaymentDetailsListResponse>(
+      'GET',
+      'payment-type/table',
+      undefined,
+      true,
+      options
+    );
+    return response.items || [];
+  }
+
+  /**
+   * Добавление платёжных реквизитов
+   *
+   * БИК и контрольные ключи счетов проверяются до отправки.
+   *
+   * @throws {PaymentDetailsValidationError} Если реквизиты некорректны
+   *
+   * @example
+   * ```typescript
+   * await api.createPaymentDetails({
+   *   type: PaymentDetailsType.ACCOUNT,
+   *   bankName: 'ПАО Сбербанк',
+   *   bankBik: '044525225',
+   *   corrAccount: '30101810400000000225',
+   *   currentAccount: '40817810001000000001',
+   * });
+   * ```
+   */
+  async createPaymentDetails(
+    params: PaymentDetailsParams,
+    options: RequestOptions = {}
+  ): Promise<PaymentDetails> {
+    return this.request<PaymentDetails>(
+      'POST',
+      'payment-type',
+      this.toPaymentDetailsBody(params),
+      true,
+      options
+    );
+  }
+
+  /**
+   * Изменение платёжных реквизитов
+   *
+   * @throws {PaymentDetailsValidationError} Если реквизиты некорректны
+   */
+  async updatePaymentDetails(
+    id: number,
+    params: Partial<PaymentDetailsParams>,
+    options: RequestOptions = {}
+  ): Promise<PaymentDetails> {
+    const current = (await this.listPaymentDetails(options)).find((item) => item.id === id);
+    if (!current) {
+      throw new NalogApiError(`Платёжные реквизиты с ID ${id} не найдены`, 'PAYMENT_DETAILS_NOT_FOUND');
+    }
+
+    const { id: _id, favorite: _favorite, ...fields } = current;
+    return this.request<PaymentDetails>(
+      'PUT',
+      `payment-type/${id}`,
+      this.toPaymentDetailsBody({ ...fields, ...params }),
+      true,
+      options
+    );
+  }
+
+  /**
+   * Удаление платёжных реквизитов
+   */
+  async deletePaymentDetails(id: number, options: RequestOptions = {}): Promise<void> {
+    await this.request<unknown>('DELETE', `payment-type/${id}`, undefined, true, options);
+  }
+
+  /**
+   * Выбор реквизитов по умолчанию (подставляются в новые счета)
+   */
+  async setFavoritePaymentDetails(id: number, options: RequestOptions = {}): Promise<void> {
+    await this.request<unknown>('POST', `payment-type/${id}/favorite`, undefined, true, options);
+  }
+
+  /**
+   * Проверяет реквизиты и приводит их к формату API
+   *
+   * @throws {PaymentDetailsValidationError} Если реквизиты некорректны
+   */
+  private toPaymentDetailsBody(params: PaymentDetailsParams): PaymentDetailsParams {
+    const issues = validatePaymentDetails(params);
+    if (issues.length > 0) {
+      throw new PaymentDetailsValidationError(issues);
+    }
+
+    return {
+      type: params.type,
+      bankName: params.bankName.trim(),
+      bankBik: params.bankBik || null,
+      currentAccount: params.currentAccount || null,
+      corrAccount: params.corrAccount || null,
+      phone: params.phone ? this.normalizePhone(params.phone) : null,
+    };
+  }
+
+  /**
+   * Получение страницы списка уведомлений
+   *
+   * @example
+   * ```typescript
+   * const page = await api.listNotifications({ unreadOnly: true });
+   * for (const notification of page.items) {
+   *   console.log(notification.title, notification.message);
+   * }
+   * ```
+   */
+  async listNotifications(
+    params: ListNotificationsParams = {},
+    options: RequestOptions = {}
+  ): Promise<NotificationListResponse> {
+    const { unreadOnly = false, offset = 0, limit = 20 } = params;
+
+    const query = new URLSearchParams();
+    query.set('offset', String(offset));
+    query.set('limit', String(limit));
+    if (unreadOnly) {
+      query.set('unreadOnly', 'true');
+    }
+
+    return this.request<NotificationListResponse>(
+      'GET',
+      `notifications?${query.toString()}`,
+      undefined,
+      true,
+      options
+    );
+  }
+
+  /**
+   * Получение количества непрочитанных уведомлений
+   */
+  async getUnreadNotificationCount(options: RequestOptions = {}): Promise<number> {
+    const response = await this.request<{ count: number }>(
+      'GET',
+      'notifications/count',
+      undefined,
+      true,
+      options
+    );
+    return response.count;
+  }
+
+  /**
+   * Отметка уведомления как прочитанного
+   */
+  async markNotificationRead(id: string, options: RequestOptions = {}): Promise<void> {
+    await this.request<unknown>('POST', `notifications/${id}/read`, undefined, true, options);
+  }
+
+  /**
+   * Отметка всех уведомлений как прочитанных
+   */
+  async markAllNotificationsRead(options: RequestOptions = {}): Promise<void> {
+    await this.request<unknown>('POST', 'notifications/read-all', undefined, true, options);
+  }
+
+  /**
+   * Получение справочника клиентов
+   */
+  async listClients(options: RequestOptions = {}): Promise<SavedClient[]> {
+    const response = await this.request<ClientListResponse>('GET', 'clients', undefined, true, options);
+    return response.items || [];
+  }
+
+  /**
+   * Получение клиента из справочника
+   *
+   * @returns Клиент или null, если он не найден
+   */
+  async getClient(id: number, options: RequestOptions = {}): Promise<SavedClient | null> {
+    try {
+      return await this.request<SavedClient>('GET', `clients/${id}`, undefined, true, options);
+    } catch (error) {
+      if (error instanceof NalogApiError && error.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Добавление клиента в справочник
+   *
+   * @example
+   * ```typescript
+   * const client = await api.createClient({
+   *   incomeType: IncomeType.FROM_LEGAL_ENTITY,
+   *   displayName: 'ООО "Компания"',
+   *   inn: '7707083893',
+   * });
+   * await api.addIncome({ name: 'Услуга', amount: 1000, clientId: client.id });
+   * ```
+   */
+  async createClient(params: SavedClientParams, options: RequestOptions = {}): Promise<SavedClient> {
+    return this.request<SavedClient>('POST', 'clients', this.toClientBody(params), true, options);
+  }
+
+  /**
+   * Изменение клиента в справочнике
+   */
+  async updateClient(
+    id: number,
+    params: Partial<SavedClientParams>,
+    options: RequestOptions = {}
+  ): Promise<SavedClient> {
+    const current = await this.getClient(id, options);
+    if (!current) {
+      throw new NalogApiError(`Клиент с ID ${id} не найден в справочнике`, 'CLIENT_NOT_FOUND');
+    }
+
+    const { id: _id, ...fields } = current;
+    return this.request<SavedClient>(
+      'PUT',
+      `clients/${id}`,
+      this.toClientBody({ ...fields, ...params }),
+      true,
+      options
+    );
+  }
+
+  /**
+   * Удаление клиента из справочника
+   */
+  async deleteClient(id: number, options: RequestOptions = {}): Promise<void> {
+    await this.request<unknown>('DELETE', `clients/${id}`, undefined, true, options);
+  }
+
+  /**
+   * Приводит данные клиента к формату API
+   */
+  private toClientBody(params: SavedClientParams): IncomeClient {
+    return {
+      incomeType: params.incomeType,
+      displayName: params.displayName || null,
+      contactPhone: params.contactPhone || null,
+      inn: params.inn || null,
+    };
   }
 
   /**
@@ -719,9 +2340,37 @@ export class NalogApi {
   async call<T>(
     endpoint: string,
     body?: unknown,
-    method: 'GET' | 'POST' = body ? 'POST' : 'GET'
+    method: 'GET' | 'POST' = body ? 'POST' : 'GET',
+    options: RequestOptions = {}
   ): Promise<T> {
-    return this.request<T>(method, endpoint, body);
+    return this.request<T>(method, endpoint, body, true, options);
+  }
+
+  /**
+   * Добавление перехватчика запросов
+   *
+   * @returns Функция, удаляющая перехватчик
+   *
+   * @example
+   * ```typescript
+   * const remove = api.use({
+   *   beforeRequest: (ctx) => {
+   *     ctx.headers['X-Trace-Id'] = traceId;
+   *   },
+   *   afterResponse: (ctx) => {
+   *     console.log(ctx.method, ctx.endpoint, ctx.status, `${ctx.duration} мс`);
+   *   },
+   * });
+   * ```
+   */
+  use(interceptor: Interceptor): () => void {
+    this.interceptors.push(interceptor);
+    return () => {
+      const index = this.interceptors.indexOf(interceptor);
+      if (index !== -1) {
+        this.interceptors.splice(index, 1);
+      }
+    };
   }
 
   /**
@@ -0,0 +1,207 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createCipheriv, createDecipheriv, randomBytes, scrypt } from 'crypto';
+import { NalogApiError } from './errors.js';
+import { SavedTokens, TokenStore } from './types.js';
+
+/**
+ * Хранилище токенов в JSON-файле
+ *
+ * @example
+ * ```typescript
+ * const api = new NalogApi({
+ *   tokenStore: new FileTokenStore('./session-token.json'),
+ * });
+ * ```
+ */
+export class FileTokenStore implements TokenStore {
+  protected readonly filePath: string;
+
+  constructor(filePath = 'session-token.json') {
+    this.filePath = path.resolve(filePath);
+  }
+
+  async load(): Promise<SavedTokens | null> {
+    const data = this.read();
+    return data === null ? null : JSON.parse(data);
+  }
+
+  async save(tokens: SavedTokens): Promise<void> {
+    this.write(JSON.stringify(tokens, null, 2));
+  }
+
+  async clear(): Promise<void> {
+    if (fs.existsSync(this.filePath)) {
+      fs.unlinkSync(this.filePath);
+    }
+  }
+
+  /**
+   * Читает содержимое файла (null, если файла нет)
+   */
+  protected read(): string | null {
+    if (!fs.existsSync(this.filePath)) {
+      return null;
+    }
+    return fs.readFileSync(this.filePath, 'utf8');
+  }
+
+  /**
+   * Записывает содержимое файла с правами 0600 (только владелец)
+   */
+  protected write(data: string): void {
+    fs.writeFileSync(this.filePath, data, { encoding: 'utf8', mode: 0o600 });
+    // mode применяется только при создании файла, поэтому права выставляем явно
+    fs.chmodSync(this.filePath, 0o600);
+  }
+}
+
+/**
+ * Хранилище токенов в памяти процесса
+ *
+ * Подходит для контейнеров с read-only файловой системой
+ * и как основа для собственных хранилищ.
+ */
+export class MemoryTokenStore implements TokenStore {
+  private tokens: SavedTokens | null;
+
+  constructor(initial: SavedTokens | null = null) {
+    this.tokens = initial ? { ...initial } : null;
+  }
+
+  async load(): Promise<SavedTokens | null> {
+    return this.tokens ? { ...this.tokens } : null;
+  }
+
+  async save(tokens: SavedTokens): Promise<void> {
+    this.tokens = { ...tokens };
+  }
+
+  async clear(): Promise<void> {
+    this.tokens = null;
+  }
+}
+
+/**
+ * Содержимое зашифрованного файла с токенами
+ */
+interface EncryptedPayload {
+  version: 1;
+  algorithm: 'aes-256-gcm';
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+/**
+ * Хранилище токенов в файле, зашифрованном AES-256-GCM
+ *
+ * Ключ — строка-пароль (ключ выводится через scrypt со случайной солью)
+ * или Buffer длиной 32 байта. Файл доступен только владельцу (0600).
+ *
+ * @example
+ * ```typescript
+ * const api = new NalogApi({
+ *   tokenStore: new EncryptedFileTokenStore('./session-token.json', process.env.TOKEN_KEY!),
+ * });
+ * ```
+ */
+export class EncryptedFileTokenStore extends FileTokenStore {
+  private readonly key: string | Buffer;
+  /** Последний выведенный ключ и его соль (scrypt медленный, не повторяем его на каждое сохранение) */
+  private derived?: { salt: Buffer; key: Promise<Buffer> };
+
+  constructor(filePath: string, key: string | Buffer) {
+    super(filePath);
+
+    if (Buffer.isBuffer(key) ? key.length !== 32 : !key) {
+      throw new NalogApiError('Ключ шифрования должен быть непустой строкой или Buffer длиной 32 байта');
+    }
+    this.key = key;
+  }
+
+  async load(): Promise<SavedTokens | null> {
+    const data = this.read();
+    if (data === null) {
+      return null;
+    }
+
+    const payload: EncryptedPayload | SavedTokens = JSON.parse(data);
+
+    // Незашифрованный файл (например, созданный до включения шифрования)
+    // загружаем как есть — при следующем сохранении он будет зашифрован
+    if (!('algorithm' in payload)) {
+      return payload;
+    }
+
+    const salt = Buffer.from(payload.salt, 'base64');
+
+    try {
+      const decipher = createDecipheriv(
+        'aes-256-gcm',
+        await this.deriveKey(salt),
+        Buffer.from(payload.iv, 'base64')
+      );
+      decipher.setAuthTag(Buffer.from(payload.tag, 'base64'));
+
+      const decrypted = Buffer.concat([
+        decipher.update(Buffer.from(payload.data, 'base64')),
+        decipher.final(),
+      ]);
+
+      return JSON.parse(decrypted.toString('utf8'));
+    } catch (error) {
+      throw new NalogApiError(
+        'Не удалось расшифровать файл с токенами: неверный ключ или файл повреждён',
+        'TOKEN_DECRYPT_FAILED',
+        undefined,
+        { cause: error }
+      );
+    }
+  }
+
+  async save(tokens: SavedTokens): Promise<void> {
+    // Соль переиспользуем вместе с ключом, IV — всегда новый
+    const salt = this.derived?.salt ?? randomBytes(16);
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', await this.deriveKey(salt), iv);
+
+    const encrypted = Buffer.concat([
+      cipher.update(JSON.stringify(tokens), 'utf8'),
+      cipher.final(),
+    ]);
+
+    const payload: EncryptedPayload = {
+      version: 1,
+      algorithm: 'aes-256-gcm',
+      salt: salt.toString('base64'),
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: encrypted.toString('base64'),
+    };
+
+    this.write(JSON.stringify(payload, null, 2));
+  }
+
+  /**
+   * Получает 256-битный ключ шифрования
+   *
+   * Ключ из пароля выводится асинхронно и запоминается для соли.
+   */
+  private deriveKey(salt: Buffer): Promise<Buffer> {
+    const passphrase = this.key;
+    if (Buffer.isBuffer(passphrase)) {
+      return Promise.resolve(passphrase);
+    }
+
+    if (!this.derived?.salt.equals(salt)) {
+      const key = new Promise<Buffer>((resolve, reject) => {
+        scrypt(passphrase, salt, 32, (error, derivedKey) => (error ? reject(error) : resolve(derivedKey)));
+      });
+      this.derived = { salt, key };
+    }
+
+    return this.derived.key;
+  }
+}
@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { MemoryIncomeLedger, FileIncomeLedger } from '../IncomeLedger.js';
+import { IncomeLedgerEntry } from '../types.js';
+
+const entry = (createdAt: string, receiptUuid: string | null = null): IncomeLedgerEntry => ({
+  receiptUuid,
+  operationTime: '2025-01-15T12:00:00.000+03:00',
+  totalAmount: '1000',
+  services: [{ name: 'Услуга', amount: '1000', quantity: 1 }],
+  createdAt,
+});
+
+describe('IncomeLedger', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'lknpd-ledger-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('MemoryIncomeLedger', () => {
+    it('should store and delete entries', async () => {
+      const ledger = new MemoryIncomeLedger();
+
+      await ledger.set('order-1', entry(new Date().toISOString(), 'uuid-1'));
+      expect((await ledger.get('order-1'))?.receiptUuid).toBe('uuid-1');
+
+      await ledger.delete('order-1');
+      expect(await ledger.get('order-1')).toBeNull();
+    });
+
+    it('should prune expired entries', async () => {
+      const ledger = new MemoryIncomeLedger(1000);
+
+      await ledger.set('old', entry(new Date(Date.now() - 5000).toISOString()));
+      await ledger.set('new', entry(new Date().toISOString()));
+
+      expect(await ledger.get('old')).toBeNull();
+      expect(await ledger.get('new')).not.toBeNull();
+    });
+  });
+
+  describe('FileIncomeLedger', () => {
+    it('should persist entries between instances', async () => {
+      const filePath = path.join(dir, 'income-ledger.json');
+
+      await new FileIncomeLedger(filePath).set('order-1', entry(new Date().toISOString(), 'uuid-1'));
+
+      const ledger = new FileIncomeLedger(filePath);
+      expect((await ledger.get('order-1'))?.receiptUuid).toBe('uuid-1');
+
+      await ledger.delete('order-1');
+      expect(await new FileIncomeLedger(filePath).get('order-1')).toBeNull();
+    });
+
+    it('should prune expired entries', async () => {
+      const ledger = new FileIncomeLedger(path.join(dir, 'income-ledger.json'), 1000);
+
+      await ledger.set('old', entry(new Date(Date.now() - 5000).toISOString()));
+      await ledger.set('new', entry(new Date().toISOString()));
+
+      expect(await ledger.get('old')).toBeNull();
+      expect(await ledger.get('new')).not.toBeNull();
+    });
+  });
+});
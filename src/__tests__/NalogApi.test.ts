@@ -1,6 +1,20 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { NalogApi, NalogApiError } from '../NalogApi.js';
-import { IncomeType, PaymentType, CancelReason } from '../types.js';
+import {
+  AuthenticationError,
+  ValidationError,
+  RateLimitError,
+  IncomeLimitExceededError,
+  ReceiptAlreadyCancelledError,
+  ServerError,
+  NetworkError,
+  TimeoutError,
+  ReceiptValidationError,
+  PaymentDetailsValidationError,
+} from '../errors.js';
+import { MemoryTokenStore } from '../TokenStore.js';
+import { MemoryIncomeLedger } from '../IncomeLedger.js';
+import { IncomeType, PaymentType, CancelReason, IncomeSortBy, IncomeStatusFilter, InvoiceStatus, PaymentDetailsType, RetryPolicy, RequestContext, NalogApiOptions } from '../types.js';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -16,17 +30,43 @@ vi.mock('fs', async () => {
     existsSync: vi.fn(),
     readFileSync: vi.fn(),
     writeFileSync: vi.fn(),
+    chmodSync: vi.fn(),
     unlinkSync: vi.fn(),
+    promises: { ...actual.promises, writeFile: vi.fn() },
   };
 });
 
+function createLogger() {
+  return { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+}
+
+function createApi(options: NalogApiOptions = {}) {
+  const api = new NalogApi(options);
+  api.setTokens('test-token', 'test-refresh', '123456789012');
+  return api;
+}
+
+function json(data: unknown, status = 200) {
+  return new Response(JSON.stringify(data), { status });
+}
+
+function tokenResponse(token: string, refreshToken = `${token}-refresh`) {
+  return json({ token, refreshToken, tokenExpireIn: new Date(Date.now() + 3600000).toISOString() });
+}
+
+function dataResponse() {
+  return json({ data: 'test' });
+}
+
 describe('NalogApi', () => {
   beforeEach(() => {
-    mockFetch.mockClear();
+    mockFetch.mockReset();
     vi.mocked(fs.existsSync).mockReset();
     vi.mocked(fs.readFileSync).mockReset();
     vi.mocked(fs.writeFileSync).mockReset();
+    vi.mocked(fs.chmodSync).mockReset();
     vi.mocked(fs.unlinkSync).mockReset();
+    vi.mocked(fs.promises.writeFile).mockReset();
   });
 
   afterEach(() => {
@@ -119,7 +159,7 @@ describe('NalogApi', () => {
 
       mockFetch.mockResolvedValueOnce({
         ok: true,
-        json: () => Promise.resolve(mockResponse),
+        text: () => Promise.resolve(JSON.stringify(mockResponse)),
       });
 
       const api = new NalogApi();
@@ -206,7 +246,7 @@ describe('NalogApi', () => {
         client: {
           incomeType: IncomeType.FROM_LEGAL_ENTITY,
           displayName: 'ООО "Тест"',
-          inn: '7700000000',
+          inn: '7707083893',
         },
       });
 
@@ -235,6 +275,175 @@ describe('NalogApi', () => {
     });
   });
 
+  describe('idempotent income creation', () => {
+    const incomeResponse = (uuid: string) => ({
+      ok: true,
+      text: () => Promise.resolve(JSON.stringify({ approvedReceiptUuid: uuid })),
+    });
+
+    const incomesPage = (content: unknown[]) => ({
+      ok: true,
+      text: () => Promise.resolve(JSON.stringify({
+        content,
+        hasMore: false,
+        currentOffset: 0,
+        currentLimit: 50,
+      })),
+    });
+
+    it('should return existing receipt for repeated key', async () => {
+      const api = createApi();
+
+      mockFetch.mockResolvedValueOnce(incomeResponse('first-uuid'));
+
+      const first = await api.addIncome({ name: 'Услуга', amount: 1000, idempotencyKey: 'order-1' });
+      const second = await api.addIncome({ name: 'Услуга', amount: 1000, idempotencyKey: 'order-1' });
+
+      expect(second).toEqual(first);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not resubmit for parallel calls with the same key', async () => {
+      const api = createApi();
+
+      let respond: (value: unknown) => void = () => {};
+      mockFetch.mockImplementationOnce(() => new Promise((resolve) => { respond = resolve; }));
+
+      const first = api.addIncome({ name: 'Услуга', amount: 1000, idempotencyKey: 'order-1' });
+      const second = api.addIncome({ name: 'Услуга', amount: 1000, idempotencyKey: 'order-1' });
+
+      await vi.waitFor(() => expect(mockFetch).toHaveBeenCalledTimes(1));
+      respond(incomeResponse('first-uuid'));
+
+      const receipts = await Promise.all([first, second]);
+
+      expect(receipts.map((receipt) => receipt.receiptUuid)).toEqual(['first-uuid', 'first-uuid']);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should let parallel call register after first one was rejected', async () => {
+      const api = createApi();
+
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: false,
+          status: 400,
+          text: () => Promise.resolve(JSON.stringify({ message: 'Bad request' })),
+        })
+        .mockResolvedValueOnce(incomeResponse('second-uuid'));
+
+      const first = api.addIncome({ name: 'Услуга', amount: 1000, idempotencyKey: 'order-1' });
+      const second = api.addIncome({ name: 'Услуга', amount: 1000, idempotencyKey: 'order-1' });
+
+      await expect(first).rejects.toThrow(NalogApiError);
+      expect((await second).receiptUuid).toBe('second-uuid');
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should find receipt registered before timeout instead of resubmitting', async () => {
+      const api = createApi();
+
+      mockFetch.mockRejectedValueOnce(new TypeError('fetch failed'));
+
+      await expect(api.addIncome({ name: 'Услуга', amount: 1000, idempotencyKey: 'order-1' }))
+        .rejects.toThrow('fetch failed');
+
+      const sent = JSON.parse(mockFetch.mock.calls[0][1].body);
+
+      mockFetch.mockResolvedValueOnce(incomesPage([
+        {
+          approvedReceiptUuid: 'other-uuid',
+          operationTime: sent.operationTime,
+          totalAmount: 500,
+          services: [{ name: 'Другая услуга', amount: 500, quantity: 1 }],
+        },
+        {
+          approvedReceiptUuid: 'registered-uuid',
+          operationTime: sent.operationTime,
+          totalAmount: 1000,
+          services: [{ name: 'Услуга', amount: 1000, quantity: 1 }],
+        },
+      ]));
+
+      const receipt = await api.addIncome({ name: 'Услуга', amount: 1000, idempotencyKey: 'order-1' });
+
+      expect(receipt.receiptUuid).toBe('registered-uuid');
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(mockFetch.mock.calls[1][0]).toContain('/incomes?');
+    });
+
+    it('should resubmit with original operation time when receipt is not found', async () => {
+      const api = createApi();
+
+      mockFetch.mockRejectedValueOnce(new TypeError('fetch failed'));
+
+      await expect(api.addMultipleIncome({
+        services: [{ name: 'Услуга', amount: 500, quantity: 2 }],
+        idempotencyKey: 'order-1',
+      })).rejects.toThrow('fetch failed');
+
+      const firstBody = JSON.parse(mockFetch.mock.calls[0][1].body);
+
+      mockFetch
+        .mockResolvedValueOnce(incomesPage([]))
+        .mockResolvedValueOnce(incomeResponse('new-uuid'));
+
+      const receipt = await api.addMultipleIncome({
+        services: [{ name: 'Услуга', amount: 500, quantity: 2 }],
+        operationTime: new Date(Date.now() + 5000),
+        idempotencyKey: 'order-1',
+      });
+
+      expect(receipt.receiptUuid).toBe('new-uuid');
+      const retryBody = JSON.parse(mockFetch.mock.calls[2][1].body);
+      expect(retryBody.operationTime).toBe(firstBody.operationTime);
+    });
+
+    it('should reject reusing key for different income', async () => {
+      const api = createApi();
+
+      mockFetch.mockResolvedValueOnce(incomeResponse('first-uuid'));
+
+      await api.addIncome({ name: 'Услуга', amount: 1000, idempotencyKey: 'order-1' });
+
+      await expect(api.addIncome({ name: 'Услуга', amount: 2000, idempotencyKey: 'order-1' }))
+        .rejects.toThrow(NalogApiError);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should release key when server rejects income', async () => {
+      const api = createApi();
+
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: false,
+          status: 400,
+          text: () => Promise.resolve(JSON.stringify({ message: 'Bad request' })),
+        })
+        .mockResolvedValueOnce(incomeResponse('new-uuid'));
+
+      await expect(api.addIncome({ name: 'Услуга', amount: 1000, idempotencyKey: 'order-1' }))
+        .rejects.toThrow('Bad request');
+
+      const receipt = await api.addIncome({ name: 'Услуга', amount: 1000, idempotencyKey: 'order-1' });
+
+      expect(receipt.receiptUuid).toBe('new-uuid');
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should use custom income ledger', async () => {
+      const incomeLedger = new MemoryIncomeLedger();
+      const api = new NalogApi({ incomeLedger });
+      api.setTokens('test-token', 'test-refresh', '123456789012');
+
+      mockFetch.mockResolvedValueOnce(incomeResponse('first-uuid'));
+
+      await api.addIncome({ name: 'Услуга', amount: 1000, idempotencyKey: 'order-1' });
+
+      expect((await incomeLedger.get('order-1'))?.receiptUuid).toBe('first-uuid');
+    });
+  });
+
   describe('addMultipleIncome', () => {
     it('should create income with multiple services', async () => {
       const api = new NalogApi();
@@ -310,9 +519,9 @@ describe('NalogApi', () => {
       const api = new NalogApi();
       api.setInn('123456789012');
 
-      const url = api.getReceiptPrintUrl('test-uuid');
+      const url = api.getReceiptPrintUrl('testuuid');
       expect(url).toContain('123456789012');
-      expect(url).toContain('test-uuid');
+      expect(url).toContain('testuuid');
       expect(url).toContain('/print');
     });
 
@@ -320,14 +529,14 @@ describe('NalogApi', () => {
       const api = new NalogApi();
       api.setInn('123456789012');
 
-      const url = api.getReceiptJsonUrl('test-uuid');
+      const url = api.getReceiptJsonUrl('testuuid');
       expect(url).toContain('/json');
     });
 
     it('should throw error when INN is not set', () => {
       const api = new NalogApi();
 
-      expect(() => api.getReceiptPrintUrl('test-uuid'))
+      expect(() => api.getReceiptPrintUrl('testuuid'))
         .toThrow('ИНН не указан');
     });
   });
@@ -414,7 +623,7 @@ describe('NalogApi', () => {
   });
 
   describe('token file operations', () => {
-    it('should load tokens from file when saveToken is true', () => {
+    it('should load tokens from file when saveToken is true', async () => {
       const savedTokens = {
         accessToken: 'saved-access-token',
         refreshToken: 'saved-refresh-token',
@@ -428,13 +637,14 @@ describe('NalogApi', () => {
       vi.mocked(fs.readFileSync).mockReturnValue(JSON.stringify(savedTokens));
 
       const api = new NalogApi({ saveToken: true });
+      await api.restoreSession();
 
       expect(api.getAuthState().accessToken).toBe('saved-access-token');
       expect(api.getAuthState().refreshToken).toBe('saved-refresh-token');
       expect(api.getInn()).toBe('123456789012');
     });
 
-    it('should not load expired access token', () => {
+    it('should not load expired access token', async () => {
       const savedTokens = {
         accessToken: 'expired-access-token',
         refreshToken: 'saved-refresh-token',
@@ -448,20 +658,22 @@ describe('NalogApi', () => {
       vi.mocked(fs.readFileSync).mockReturnValue(JSON.stringify(savedTokens));
 
       const api = new NalogApi({ saveToken: true });
+      await api.restoreSession();
 
       expect(api.getAuthState().accessToken).toBeNull();
       expect(api.getAuthState().refreshToken).toBe('saved-refresh-token');
     });
 
-    it('should not set accessToken when token file does not exist', () => {
+    it('should not set accessToken when token file does not exist', async () => {
       vi.mocked(fs.existsSync).mockReturnValue(false);
 
       const api = new NalogApi({ saveToken: true });
+      await api.restoreSession();
 
       expect(api.getAuthState().accessToken).toBeNull();
     });
 
-    it('should not set refreshToken when saved tokens have empty refreshToken', () => {
+    it('should not set refreshToken when saved tokens have empty refreshToken', async () => {
       const savedTokens = {
         accessToken: 'saved-access-token',
         refreshToken: '',
@@ -473,17 +685,19 @@ describe('NalogApi', () => {
       vi.mocked(fs.readFileSync).mockReturnValue(JSON.stringify(savedTokens));
 
       const api = new NalogApi({ saveToken: true });
+      await api.restoreSession();
 
       expect(api.getAuthState().refreshToken).toBeNull();
     });
 
-    it('should handle file read errors gracefully', () => {
+    it('should handle file read errors gracefully', async () => {
       vi.mocked(fs.existsSync).mockReturnValue(true);
       vi.mocked(fs.readFileSync).mockImplementation(() => {
         throw new Error('Read error');
       });
 
       const api = new NalogApi({ saveToken: true });
+      await api.restoreSession();
 
       expect(api.getAuthState().accessToken).toBeNull();
     });
@@ -507,6 +721,127 @@ describe('NalogApi', () => {
       expect(fs.writeFileSync).toHaveBeenCalled();
     });
 
+    it('should write token file with owner-only permissions', async () => {
+      vi.mocked(fs.existsSync).mockReturnValue(false);
+
+      const api = new NalogApi({ saveToken: true });
+
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        text: () => Promise.resolve(JSON.stringify({
+          token: 'new-token',
+          refreshToken: 'new-refresh',
+          tokenExpireIn: '2025-12-31T23:59:59.000Z',
+        })),
+      });
+
+      await api.authByInn('123456789012', 'password');
+
+      expect(fs.writeFileSync).toHaveBeenCalledWith(
+        expect.stringContaining('session-token.json'),
+        expect.any(String),
+        expect.objectContaining({ mode: 0o600 })
+      );
+      expect(fs.chmodSync).toHaveBeenCalledWith(
+        expect.stringContaining('session-token.json'),
+        0o600
+      );
+    });
+
+    it('should encrypt token file when encryption key is set', async () => {
+      vi.mocked(fs.existsSync).mockReturnValue(false);
+
+      const api = new NalogApi({ saveToken: true, saveTokenEncryptionKey: 'secret' });
+
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        text: () => Promise.resolve(JSON.stringify({
+          token: 'new-token',
+          refreshToken: 'new-refresh',
+          tokenExpireIn: '2025-12-31T23:59:59.000Z',
+        })),
+      });
+
+      await api.authByInn('123456789012', 'password');
+
+      const written = vi.mocked(fs.writeFileSync).mock.calls[0][1] as string;
+      expect(written).not.toContain('new-refresh');
+      expect(JSON.parse(written).algorithm).toBe('aes-256-gcm');
+
+      // Тот же ключ расшифровывает файл
+      vi.mocked(fs.existsSync).mockReturnValue(true);
+      vi.mocked(fs.readFileSync).mockReturnValue(written);
+
+      const restored = new NalogApi({ saveToken: true, saveTokenEncryptionKey: 'secret' });
+      await restored.restoreSession();
+
+      expect(restored.getAuthState().refreshToken).toBe('new-refresh');
+    });
+
+    it('should report wrong encryption key instead of dropping session', async () => {
+      vi.mocked(fs.existsSync).mockReturnValue(false);
+
+      const api = new NalogApi({ saveToken: true, saveTokenEncryptionKey: 'right-key' });
+
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        text: () => Promise.resolve(JSON.stringify({
+          token: 'new-token',
+          refreshToken: 'new-refresh',
+          tokenExpireIn: '2025-12-31T23:59:59.000Z',
+        })),
+      });
+
+      await api.authByInn('123456789012', 'password');
+
+      const written = vi.mocked(fs.writeFileSync).mock.calls[0][1] as string;
+      vi.mocked(fs.existsSync).mockReturnValue(true);
+      vi.mocked(fs.readFileSync).mockReturnValue(written);
+
+      const logger = createLogger();
+      const restored = new NalogApi({ saveToken: true, saveTokenEncryptionKey: 'wrong-key', logger });
+
+      await expect(restored.call('some/endpoint'))
+        .rejects.toThrow('Не удалось расшифровать файл с токенами');
+      expect(logger.error).toHaveBeenCalledWith(
+        'Failed to load saved tokens',
+        expect.objectContaining({ event: 'tokens.load.failed' })
+      );
+    });
+
+    it('should replace unreadable session with fresh login', async () => {
+      vi.mocked(fs.existsSync).mockReturnValue(false);
+      mockFetch.mockResolvedValueOnce(json({
+        token: 'old-token',
+        refreshToken: 'old-refresh',
+        tokenExpireIn: '2099-12-31T23:59:59.000Z',
+      }));
+      await new NalogApi({ saveToken: true, saveTokenEncryptionKey: 'right-key' }).authByInn('123456789012', 'password');
+
+      vi.mocked(fs.existsSync).mockReturnValue(true);
+      vi.mocked(fs.readFileSync).mockReturnValue(vi.mocked(fs.writeFileSync).mock.calls[0][1] as string);
+      vi.mocked(fs.writeFileSync).mockClear();
+
+      const api = new NalogApi({ saveToken: true, saveTokenEncryptionKey: 'wrong-key', logger: createLogger() });
+      mockFetch
+        .mockResolvedValueOnce(json({
+          token: 'new-token',
+          refreshToken: 'new-refresh',
+          tokenExpireIn: '2099-12-31T23:59:59.000Z',
+        }))
+        .mockResolvedValueOnce(json({ ok: true }));
+
+      await api.authByInn('123456789012', 'password');
+      await api.call('some/endpoint');
+
+      expect(mockFetch.mock.calls[2][1].headers.Authorization).toBe('Bearer new-token');
+      const written = vi.mocked(fs.writeFileSync).mock.calls[0][1] as string;
+      vi.mocked(fs.readFileSync).mockReturnValue(written);
+      const restored = new NalogApi({ saveToken: true, saveTokenEncryptionKey: 'wrong-key' });
+      expect(await restored.restoreSession()).toBe(true);
+      expect(restored.getAuthState().refreshToken).toBe('new-refresh');
+    });
+
     it('should handle save errors gracefully', async () => {
       const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
       vi.mocked(fs.existsSync).mockReturnValue(false);
@@ -528,8 +863,8 @@ describe('NalogApi', () => {
       await api.authByInn('123456789012', 'password');
 
       expect(consoleSpy).toHaveBeenCalledWith(
-        'Failed to save tokens to file:',
-        expect.any(Error)
+        'Failed to save tokens',
+        expect.objectContaining({ event: 'tokens.save.failed', error: expect.any(Error) })
       );
 
       consoleSpy.mockRestore();
@@ -566,6 +901,63 @@ describe('NalogApi', () => {
     });
   });
 
+  describe('custom token store', () => {
+    it('should restore session from token store', async () => {
+      const tokenStore = new MemoryTokenStore({
+        accessToken: 'stored-access-token',
+        refreshToken: 'stored-refresh-token',
+        tokenExpireIn: new Date(Date.now() + 3600000).toISOString(),
+        inn: '123456789012',
+        deviceId: 'stored-device-id',
+        savedAt: new Date().toISOString(),
+      });
+
+      const api = new NalogApi({ tokenStore });
+
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        text: () => Promise.resolve(JSON.stringify({ data: 'test' })),
+      });
+
+      await api.call('some/endpoint');
+
+      expect(api.getInn()).toBe('123456789012');
+      expect(mockFetch).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({
+          headers: expect.objectContaining({ Authorization: 'Bearer stored-access-token' }),
+        })
+      );
+      expect(fs.readFileSync).not.toHaveBeenCalled();
+    });
+
+    it('should save tokens to token store after auth', async () => {
+      const tokenStore = new MemoryTokenStore();
+      const api = new NalogApi({ tokenStore });
+
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        text: () => Promise.resolve(JSON.stringify({
+          token: 'new-token',
+          refreshToken: 'new-refresh',
+          tokenExpireIn: '2025-12-31T23:59:59.000Z',
+        })),
+      });
+
+      await api.authByInn('123456789012', 'password');
+
+      expect(await tokenStore.load()).toEqual(expect.objectContaining({
+        accessToken: 'new-token',
+        refreshToken: 'new-refresh',
+        inn: '123456789012',
+      }));
+      expect(fs.writeFileSync).not.toHaveBeenCalled();
+
+      await api.clearSavedTokens();
+      expect(await tokenStore.load()).toBeNull();
+    });
+  });
+
   describe('phone normalization', () => {
     it('should normalize 10-digit phone', () => {
       const api = new NalogApi({ phone: '9991234567' });
@@ -577,9 +969,17 @@ describe('NalogApi', () => {
       expect(api).toBeInstanceOf(NalogApi);
     });
 
-    it('should return digits for non-standard phone', () => {
-      const api = new NalogApi({ phone: '123' });
-      expect(api).toBeInstanceOf(NalogApi);
+    it('should reject unrecognized phone', () => {
+      expect(() => new NalogApi({ phone: '123' })).toThrow(ValidationError);
+    });
+
+    it('should send phone without plus to API', async () => {
+      const api = new NalogApi();
+      mockFetch.mockResolvedValueOnce(new Response(JSON.stringify({ challengeToken: 'challenge' }), { status: 200 }));
+
+      await api.requestSmsCode('8 (999) 123-45-67');
+
+      expect(JSON.parse(mockFetch.mock.calls[0][1].body).phone).toBe('79991234567');
     });
   });
 
@@ -640,10 +1040,10 @@ describe('NalogApi', () => {
       mockFetch.mockResolvedValueOnce({
         ok: false,
         status: 400,
-        json: () => Promise.resolve({
+        text: () => Promise.resolve(JSON.stringify({
           code: 'PHONE_ERROR',
           message: 'Invalid phone number',
-        }),
+        })),
       });
 
       const api = new NalogApi();
@@ -651,6 +1051,28 @@ describe('NalogApi', () => {
       await expect(api.requestSmsCode('79991234567'))
         .rejects.toThrow('Invalid phone number');
     });
+
+    it('should map non-JSON error response by status', async () => {
+      mockFetch.mockResolvedValueOnce(new Response('<html>Too Many Requests</html>', {
+        status: 429,
+        headers: { 'Content-Type': 'text/html' },
+      }));
+
+      const error = await new NalogApi().requestSmsCode('79991234567').catch((e) => e);
+
+      expect(error).toBeInstanceOf(RateLimitError);
+      expect(error.status).toBe(429);
+    });
+
+    it('should reject empty successful response', async () => {
+      mockFetch.mockResolvedValueOnce(new Response('', { status: 200 }));
+
+      const error = await new NalogApi().requestSmsCode('79991234567').catch((e) => e);
+
+      expect(error).toBeInstanceOf(NalogApiError);
+      expect(error).not.toBeInstanceOf(NetworkError);
+      expect(error.message).toBe('Сервер не вернул challengeToken');
+    });
   });
 
   describe('timezone handling', () => {
@@ -659,9 +1081,78 @@ describe('NalogApi', () => {
       expect(api).toBeInstanceOf(NalogApi);
     });
 
-    it('should use default timezone for unknown zone', () => {
-      const api = new NalogApi({ timezone: 'Unknown/Zone' });
-      expect(api).toBeInstanceOf(NalogApi);
+    it('should reject unknown timezone', () => {
+      expect(() => new NalogApi({ timezone: 'Unknown/Zone' }))
+        .toThrow(NalogApiError);
+    });
+
+    it('should format local wall-clock time with zone offset', async () => {
+      const api = new NalogApi({ timezone: 'Europe/Moscow', validateIncome: false });
+      api.setTokens('test-token', 'test-refresh', '123456789012');
+
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        text: () => Promise.resolve(JSON.stringify({ approvedReceiptUuid: 'test-uuid' })),
+      });
+
+      await api.addIncome({
+        name: 'Услуга',
+        amount: 1000,
+        operationTime: new Date('2025-01-15T09:00:00.000Z'),
+      });
+
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(body.operationTime).toBe('2025-01-15T12:00:00.000+03:00');
+    });
+
+    it('should apply daylight saving and historical offsets', async () => {
+      const api = new NalogApi({ timezone: 'America/New_York', validateIncome: false });
+      api.setTokens('test-token', 'test-refresh', '123456789012');
+
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: true,
+          text: () => Promise.resolve(JSON.stringify({ approvedReceiptUuid: 'summer' })),
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          text: () => Promise.resolve(JSON.stringify({ approvedReceiptUuid: 'winter' })),
+        });
+
+      await api.addIncome({
+        name: 'Услуга',
+        amount: 1000,
+        operationTime: new Date('2025-07-01T16:30:00.000Z'),
+      });
+      await api.addIncome({
+        name: 'Услуга',
+        amount: 1000,
+        operationTime: new Date('2025-01-01T16:30:00.000Z'),
+      });
+
+      expect(JSON.parse(mockFetch.mock.calls[0][1].body).operationTime)
+        .toBe('2025-07-01T12:30:00.000-04:00');
+      expect(JSON.parse(mockFetch.mock.calls[1][1].body).operationTime)
+        .toBe('2025-01-01T11:30:00.000-05:00');
+    });
+
+    it('should use historical Moscow offset', async () => {
+      const api = new NalogApi({ timezone: 'Europe/Moscow', validateIncome: false });
+      api.setTokens('test-token', 'test-refresh', '123456789012');
+
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        text: () => Promise.resolve(JSON.stringify({ approvedReceiptUuid: 'test-uuid' })),
+      });
+
+      await api.addIncome({
+        name: 'Услуга',
+        amount: 1000,
+        operationTime: new Date('2012-01-15T08:00:00.000Z'),
+      });
+
+      expect(JSON.parse(mockFetch.mock.calls[0][1].body).operationTime)
+        .toBe('2012-01-15T12:00:00.000+04:00');
     });
   });
 
@@ -718,84 +1209,1629 @@ describe('NalogApi', () => {
     });
   });
 
-  describe('cancelIncome reasons', () => {
-    it('should use CANCEL reason text', async () => {
+  describe('concurrent token refresh', () => {
+    const isRefreshCall = (call: unknown[]) => String(call[0]).endsWith('/auth/token');
+
+    it('should refresh token once for parallel requests near expiry', async () => {
       const api = new NalogApi();
-      api.setTokens('test-token', 'test-refresh', '123456789012');
+      api.setTokens('old-token', 'refresh-token', '123456789012');
+      (api as any).authState.tokenExpireIn = new Date(Date.now() + 60000);
 
-      mockFetch.mockResolvedValueOnce({
+      mockFetch.mockImplementation((url: string) =>
+        Promise.resolve(url.endsWith('/auth/token')
+          ? tokenResponse('refreshed-token', 'rotated-refresh')
+          : dataResponse())
+      );
+
+      await Promise.all(
+        Array.from({ length: 10 }, () => api.call('some/endpoint'))
+      );
+
+      const refreshCalls = mockFetch.mock.calls.filter(isRefreshCall);
+      expect(refreshCalls).toHaveLength(1);
+      expect(JSON.parse(refreshCalls[0][1].body).refreshToken).toBe('refresh-token');
+
+      const apiCalls = mockFetch.mock.calls.filter((call) => !isRefreshCall(call));
+      expect(apiCalls).toHaveLength(10);
+      for (const call of apiCalls) {
+        expect(call[1].headers.Authorization).toBe('Bearer refreshed-token');
+      }
+      expect(api.getAuthState().refreshToken).toBe('rotated-refresh');
+    });
+
+    it('should share refresh between explicit parallel refreshAccessToken calls', async () => {
+      const api = new NalogApi();
+      api.setTokens('old-token', 'refresh-token', '123456789012');
+
+      mockFetch.mockResolvedValueOnce(tokenResponse('refreshed-token', 'rotated-refresh'));
+
+      const [first, second] = await Promise.all([
+        api.refreshAccessToken(),
+        api.refreshAccessToken(),
+      ]);
+
+      expect(first).toBe(second);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject all waiters on refresh failure and retry on next call', async () => {
+      const api = new NalogApi();
+      api.setTokens('old-token', 'refresh-token', '123456789012');
+      (api as any).authState.tokenExpireIn = new Date(Date.now() + 60000);
+
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 401,
+        text: () => Promise.resolve(JSON.stringify({ message: 'Refresh token expired' })),
+      });
+
+      const results = await Promise.allSettled([
+        api.call('some/endpoint'),
+        api.call('some/endpoint'),
+        api.call('some/endpoint'),
+      ]);
+
+      expect(results.every((r) => r.status === 'rejected')).toBe(true);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+
+      mockFetch
+        .mockResolvedValueOnce(tokenResponse('refreshed-token', 'rotated-refresh'))
+        .mockResolvedValueOnce(dataResponse());
+
+      await api.call('some/endpoint');
+
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+      expect(api.getAuthState().accessToken).toBe('refreshed-token');
+    });
+
+    it('should authenticate once for parallel requests without token', async () => {
+      const api = new NalogApi({ inn: '123456789012', password: 'test' });
+
+      mockFetch.mockImplementation((url: string) =>
+        Promise.resolve(url.endsWith('/auth/lkfl')
+          ? tokenResponse('new-token', 'new-refresh')
+          : dataResponse())
+      );
+
+      await Promise.all(
+        Array.from({ length: 5 }, () => api.call('some/endpoint'))
+      );
+
+      const authCalls = mockFetch.mock.calls.filter((call) => String(call[0]).endsWith('/auth/lkfl'));
+      expect(authCalls).toHaveLength(1);
+      expect(mockFetch).toHaveBeenCalledTimes(6);
+    });
+  });
+
+  describe('retry on 401', () => {
+    const unauthorized = () => ({
+      ok: false,
+      status: 401,
+      text: () => Promise.resolve(JSON.stringify({ message: 'Unauthorized' })),
+    });
+
+    it('should refresh token and replay request after 401', async () => {
+      const onSessionRenewed = vi.fn();
+      const api = new NalogApi({ onSessionRenewed });
+      api.setTokens('revoked-token', 'refresh-token', '123456789012');
+
+      mockFetch
+        .mockResolvedValueOnce(unauthorized())
+        .mockResolvedValueOnce(tokenResponse('new-token'))
+        .mockResolvedValueOnce(dataResponse());
+
+      const result = await api.call<{ data: string }>('some/endpoint');
+
+      expect(result.data).toBe('test');
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+      expect(mockFetch.mock.calls[1][0]).toContain('/auth/token');
+      expect(mockFetch.mock.calls[2][1].headers.Authorization).toBe('Bearer new-token');
+      expect(onSessionRenewed).toHaveBeenCalledWith(
+        expect.objectContaining({ token: 'new-token' }),
+        'refresh'
+      );
+    });
+
+    it('should fall back to inn+password when refresh fails', async () => {
+      const onSessionRenewed = vi.fn();
+      const api = new NalogApi({ inn: '123456789012', password: 'test', onSessionRenewed });
+      api.setTokens('revoked-token', 'revoked-refresh');
+
+      mockFetch
+        .mockResolvedValueOnce(unauthorized())
+        .mockResolvedValueOnce(unauthorized())
+        .mockResolvedValueOnce(tokenResponse('reauth-token'))
+        .mockResolvedValueOnce(dataResponse());
+
+      await api.call('some/endpoint');
+
+      expect(mockFetch.mock.calls[2][0]).toContain('/auth/lkfl');
+      expect(mockFetch.mock.calls[3][1].headers.Authorization).toBe('Bearer reauth-token');
+      expect(onSessionRenewed).toHaveBeenCalledTimes(1);
+      expect(onSessionRenewed).toHaveBeenCalledWith(
+        expect.objectContaining({ token: 'reauth-token' }),
+        'reauth'
+      );
+    });
+
+    it('should not fail renewed session when callback throws', async () => {
+      const logger = createLogger();
+      const onSessionRenewed = vi.fn().mockRejectedValue(new Error('callback failed'));
+      const api = new NalogApi({ inn: '123456789012', password: 'test', onSessionRenewed, logger });
+      api.setTokens('revoked-token', 'refresh-token', '123456789012');
+
+      mockFetch
+        .mockResolvedValueOnce(unauthorized())
+        .mockResolvedValueOnce(tokenResponse('new-token'))
+        .mockResolvedValueOnce(dataResponse());
+
+      const result = await api.call<{ data: string }>('some/endpoint');
+
+      expect(result.data).toBe('test');
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+      expect(mockFetch.mock.calls.some(([url]) => String(url).includes('/auth/lkfl'))).toBe(false);
+      expect(onSessionRenewed).toHaveBeenCalledTimes(1);
+      expect(logger.error).toHaveBeenCalledWith(
+        'onSessionRenewed callback failed',
+        expect.objectContaining({ event: 'session.renewed.failed', reason: 'refresh' })
+      );
+    });
+
+    it('should call onSessionRenewed on refresh before expiry', async () => {
+      const onSessionRenewed = vi.fn();
+      const api = new NalogApi({ onSessionRenewed });
+      api.setTokens('old-token', 'refresh-token', '123456789012');
+      (api as any).authState.tokenExpireIn = new Date(Date.now() + 60000);
+
+      mockFetch
+        .mockResolvedValueOnce(tokenResponse('new-token'))
+        .mockResolvedValueOnce(dataResponse());
+
+      await api.call('some/endpoint');
+
+      expect(onSessionRenewed).toHaveBeenCalledTimes(1);
+      expect(onSessionRenewed).toHaveBeenCalledWith(expect.objectContaining({ token: 'new-token' }), 'refresh');
+    });
+
+    it('should not call onSessionRenewed for explicit refresh', async () => {
+      const onSessionRenewed = vi.fn();
+      const api = new NalogApi({ onSessionRenewed });
+      api.setTokens('old-token', 'refresh-token', '123456789012');
+
+      mockFetch.mockResolvedValueOnce(tokenResponse('new-token'));
+
+      await api.refreshAccessToken();
+
+      expect(onSessionRenewed).not.toHaveBeenCalled();
+    });
+
+    it('should replay only once', async () => {
+      const api = new NalogApi();
+      api.setTokens('revoked-token', 'refresh-token', '123456789012');
+
+      mockFetch
+        .mockResolvedValueOnce(unauthorized())
+        .mockResolvedValueOnce(tokenResponse('new-token'))
+        .mockResolvedValueOnce(unauthorized());
+
+      await expect(api.call('some/endpoint')).rejects.toThrow('Unauthorized');
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should renew session once for parallel 401 responses', async () => {
+      const api = new NalogApi();
+      api.setTokens('revoked-token', 'refresh-token', '123456789012');
+
+      mockFetch.mockImplementation((url: string, init: { headers: Record<string, string> }) => {
+        if (url.endsWith('/auth/token')) {
+          return Promise.resolve(tokenResponse('new-token'));
+        }
+        return Promise.resolve(init.headers.Authorization === 'Bearer new-token'
+          ? dataResponse()
+          : unauthorized());
+      });
+
+      await Promise.all([api.call('a'), api.call('b'), api.call('c')]);
+
+      const refreshCalls = mockFetch.mock.calls.filter((call) => String(call[0]).endsWith('/auth/token'));
+      expect(refreshCalls).toHaveLength(1);
+    });
+
+    it('should not retry when autoRefreshToken is disabled', async () => {
+      const api = new NalogApi({ autoRefreshToken: false });
+      api.setTokens('revoked-token', 'refresh-token', '123456789012');
+
+      mockFetch.mockResolvedValueOnce(unauthorized());
+
+      await expect(api.call('some/endpoint')).rejects.toThrow(NalogApiError);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('retry policy', () => {
+    const serverError = (status: number, headers: Record<string, string> = {}) => ({
+      ok: false,
+      status,
+      headers: new Headers(headers),
+      text: () => Promise.resolve(JSON.stringify({ message: `Error ${status}` })),
+    });
+
+    // Повторы без пауз
+    const noDelay: RetryPolicy = { baseDelay: 0, jitter: false };
+
+    it('should not retry by default', async () => {
+      const api = createApi();
+
+      mockFetch.mockResolvedValueOnce(serverError(503));
+
+      await expect(api.call('some/endpoint')).rejects.toThrow('Error 503');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should retry GET on 5xx and network errors', async () => {
+      const api = createApi({ retry: { ...noDelay, maxAttempts: 3 } });
+
+      mockFetch
+        .mockResolvedValueOnce(serverError(502))
+        .mockRejectedValueOnce(new TypeError('fetch failed'))
+        .mockResolvedValueOnce(dataResponse());
+
+      const result = await api.call<{ data: string }>('some/endpoint');
+
+      expect(result.data).toBe('test');
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should give up after maxAttempts', async () => {
+      const api = createApi({ retry: { ...noDelay, maxAttempts: 2 } });
+
+      mockFetch
+        .mockResolvedValueOnce(serverError(500))
+        .mockResolvedValueOnce(serverError(500));
+
+      await expect(api.call('some/endpoint')).rejects.toThrow('Error 500');
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not retry non-retryable statuses', async () => {
+      const api = createApi({ retry: { ...noDelay, maxAttempts: 3 } });
+
+      mockFetch.mockResolvedValueOnce(serverError(400));
+
+      await expect(api.call('some/endpoint')).rejects.toThrow('Error 400');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not retry POST income unless opted in', async () => {
+      const api = createApi({ retry: { ...noDelay, maxAttempts: 3 } });
+
+      mockFetch.mockResolvedValueOnce(serverError(503));
+
+      await expect(api.addIncome({ name: 'Услуга', amount: 100 })).rejects.toThrow('Error 503');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should retry opted-in POST endpoints', async () => {
+      const api = createApi({ retry: { ...noDelay, maxAttempts: 3, retryNonIdempotent: ['cancel'] } });
+
+      mockFetch
+        .mockResolvedValueOnce(serverError(503))
+        .mockResolvedValueOnce({
+          ok: true,
+          text: () => Promise.resolve(JSON.stringify({ approvedReceiptUuid: 'cancelled-uuid' })),
+        });
+
+      const result = await api.cancelIncome({ receiptUuid: 'test-uuid', reason: CancelReason.CANCEL });
+
+      expect(result.approvedReceiptUuid).toBe('cancelled-uuid');
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should never retry auth endpoints', async () => {
+      const api = createApi({ retry: { ...noDelay, maxAttempts: 3, retryNonIdempotent: true } });
+
+      mockFetch.mockResolvedValueOnce(serverError(503));
+      await expect(api.refreshAccessToken()).rejects.toThrow('Error 503');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(mockFetch.mock.calls[0][0]).toContain('/auth/token');
+
+      mockFetch.mockReset();
+      mockFetch.mockRejectedValueOnce(new TypeError('fetch failed'));
+      await expect(api.authByInn('123456789012', 'password')).rejects.toThrow(NetworkError);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(mockFetch.mock.calls[0][0]).toContain('/auth/lkfl');
+    });
+
+    it('should honor Retry-After header', async () => {
+      vi.useFakeTimers();
+      try {
+        const api = createApi({ retry: { ...noDelay, maxAttempts: 2 } });
+
+        mockFetch
+          .mockResolvedValueOnce(serverError(429, { 'Retry-After': '2' }))
+          .mockResolvedValueOnce(dataResponse());
+
+        const promise = api.call('some/endpoint');
+
+        await vi.advanceTimersByTimeAsync(1900);
+        expect(mockFetch).toHaveBeenCalledTimes(1);
+
+        await vi.advanceTimersByTimeAsync(100);
+        await promise;
+        expect(mockFetch).toHaveBeenCalledTimes(2);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should not wait for Retry-After longer than maxDelay', async () => {
+      const api = createApi({ retry: { ...noDelay, maxAttempts: 3, maxDelay: 1000 } });
+
+      mockFetch.mockResolvedValueOnce(serverError(429, { 'Retry-After': '60' }));
+
+      await expect(api.call('some/endpoint')).rejects.toThrow('Error 429');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('cancelIncome reasons', () => {
+    it('should use CANCEL reason text', async () => {
+      const api = new NalogApi();
+      api.setTokens('test-token', 'test-refresh', '123456789012');
+
+      mockFetch.mockResolvedValueOnce({
         ok: true,
         text: () => Promise.resolve(JSON.stringify({
           approvedReceiptUuid: 'cancelled-uuid',
         })),
       });
 
-      await api.cancelIncome({
-        receiptUuid: 'test-uuid',
-        reason: CancelReason.CANCEL,
+      await api.cancelIncome({
+        receiptUuid: 'test-uuid',
+        reason: CancelReason.CANCEL,
+      });
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({
+          body: expect.stringContaining('Чек сформирован ошибочно'),
+        })
+      );
+    });
+
+    it('should use custom comment over reason', async () => {
+      const api = new NalogApi();
+      api.setTokens('test-token', 'test-refresh', '123456789012');
+
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        text: () => Promise.resolve(JSON.stringify({
+          approvedReceiptUuid: 'cancelled-uuid',
+        })),
+      });
+
+      await api.cancelIncome({
+        receiptUuid: 'test-uuid',
+        reason: CancelReason.REFUND,
+        comment: 'Пользовательский комментарий',
+      });
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({
+          body: expect.stringContaining('Пользовательский комментарий'),
+        })
+      );
+    });
+  });
+
+  describe('request error handling', () => {
+    it('should handle non-JSON error response', async () => {
+      const api = new NalogApi();
+      api.setTokens('test-token', 'test-refresh', '123456789012');
+
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 500,
+        text: () => Promise.resolve('Internal Server Error'),
+      });
+
+      await expect(api.call('some/endpoint'))
+        .rejects.toThrow('HTTP Error: 500');
+    });
+
+    it('should handle empty response', async () => {
+      const api = new NalogApi();
+      api.setTokens('test-token', 'test-refresh', '123456789012');
+
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        text: () => Promise.resolve(''),
+      });
+
+      const result = await api.call('some/endpoint');
+
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('error hierarchy', () => {
+    const errorResponse = (status: number, body: unknown, headers: Record<string, string> = {}) => ({
+      ok: false,
+      status,
+      headers: new Headers(headers),
+      text: () => Promise.resolve(JSON.stringify(body)),
+    });
+
+    it('should throw AuthenticationError with request details', async () => {
+      mockFetch.mockResolvedValueOnce(errorResponse(
+        401,
+        { code: 'authentication.failed', message: 'Неверный пароль' },
+        { 'X-Request-Id': 'req-123' }
+      ));
+
+      const api = new NalogApi();
+      const error = await api.authByInn('123456789012', 'wrong').catch((e) => e);
+
+      expect(error).toBeInstanceOf(AuthenticationError);
+      expect(error).toBeInstanceOf(NalogApiError);
+      expect(error.status).toBe(401);
+      expect(error.code).toBe('authentication.failed');
+      expect(error.requestId).toBe('req-123');
+      expect(error.endpoint).toBe('auth/lkfl');
+    });
+
+    it('should map known error codes regardless of status', async () => {
+      mockFetch.mockResolvedValueOnce(errorResponse(400, {
+        code: 'receipt.already.cancelled',
+        message: 'Чек уже аннулирован',
+      }));
+
+      const error = await createApi({ autoRefreshToken: false })
+        .cancelIncome({ receiptUuid: 'test-uuid', reason: CancelReason.CANCEL })
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(ReceiptAlreadyCancelledError);
+      expect(error.endpoint).toBe('cancel');
+    });
+
+    it('should map income limit error', async () => {
+      mockFetch.mockResolvedValueOnce(errorResponse(400, {
+        code: 'MAX_TOTAL_INCOME_EXCEEDED',
+        message: 'Превышен лимит дохода',
+      }));
+
+      await expect(createApi({ autoRefreshToken: false }).addIncome({ name: 'Услуга', amount: 1000 }))
+        .rejects.toBeInstanceOf(IncomeLimitExceededError);
+    });
+
+    it('should fall back to HTTP status', async () => {
+      mockFetch
+        .mockResolvedValueOnce(errorResponse(429, { message: 'Too many' }, { 'Retry-After': '3' }))
+        .mockResolvedValueOnce(errorResponse(503, { message: 'Unavailable' }))
+        .mockResolvedValueOnce(errorResponse(422, { message: 'Invalid' }))
+        .mockResolvedValueOnce(errorResponse(404, { message: 'Not found' }));
+
+      const api = createApi({ autoRefreshToken: false });
+
+      const rateLimit = await api.call<never>('a').catch((e) => e);
+      expect(rateLimit).toBeInstanceOf(RateLimitError);
+      expect(rateLimit.retryAfter).toBe(3000);
+
+      await expect(api.call('b')).rejects.toBeInstanceOf(ServerError);
+      await expect(api.call('c')).rejects.toBeInstanceOf(ValidationError);
+
+      const notFound = await api.call<never>('d').catch((e) => e);
+      expect(notFound.constructor).toBe(NalogApiError);
+      expect(notFound.status).toBe(404);
+    });
+
+    it('should wrap fetch failures in NetworkError', async () => {
+      const cause = new TypeError('fetch failed');
+      mockFetch.mockRejectedValueOnce(cause);
+
+      const error = await createApi({ autoRefreshToken: false }).call<never>('some/endpoint').catch((e) => e);
+
+      expect(error).toBeInstanceOf(NetworkError);
+      expect(error.cause).toBe(cause);
+      expect(error.endpoint).toBe('some/endpoint');
+      expect(error.status).toBeUndefined();
+    });
+
+    it('should map errors in requestSmsCode', async () => {
+      mockFetch.mockResolvedValueOnce(errorResponse(429, {
+        code: 'sms.limit.exceeded',
+        message: 'Превышен лимит SMS',
+      }));
+
+      const error = await new NalogApi().requestSmsCode('79991234567').catch((e) => e);
+
+      expect(error).toBeInstanceOf(RateLimitError);
+      expect(error.endpoint).toBe('auth/challenge/sms/start');
+    });
+  });
+
+  describe('error redaction', () => {
+    it('should redact tokens in error response and toJSON', async () => {
+      const api = new NalogApi();
+      api.setTokens('test-token', 'test-refresh', '123456789012');
+
+      mockFetch.mockResolvedValueOnce(new Response(JSON.stringify({
+        code: 'validation.failed',
+        message: 'Неверный телефон 79991234567',
+        refreshToken: 'leaked',
+      }), { status: 400 }));
+
+      const error = await api.getUserInfo().catch((e) => e);
+
+      expect(error.response).toEqual({
+        code: 'validation.failed',
+        message: 'Неверный телефон +7********67',
+        refreshToken: '[REDACTED]',
+      });
+
+      const json = JSON.parse(JSON.stringify(error));
+      expect(json).toEqual(expect.objectContaining({
+        name: 'ValidationError',
+        message: 'Неверный телефон +7********67',
+        code: 'validation.failed',
+        status: 400,
+        endpoint: 'user',
+      }));
+      expect(JSON.stringify(error)).not.toContain('leaked');
+      expect(JSON.stringify(error)).not.toContain('79991234567');
+    });
+
+    it('should serialize error cause', () => {
+      const error = new NetworkError('Сетевая ошибка', { cause: new Error('Bearer abc failed') });
+      expect(error.toJSON().cause).toEqual({ name: 'Error', message: 'Bearer [REDACTED] failed' });
+    });
+  });
+
+  describe('timeouts and cancellation', () => {
+    // fetch, который завершается только при отмене запроса
+    const hangingFetch = (_url: string, init: { signal: AbortSignal }) =>
+      new Promise((_resolve, reject) => {
+        init.signal.addEventListener('abort', () => reject(init.signal.reason));
+      });
+
+    it('should throw TimeoutError after default timeout', async () => {
+      vi.useFakeTimers();
+      try {
+        mockFetch.mockImplementationOnce(hangingFetch);
+
+        const promise = createApi({ timeout: 1000 }).call('some/endpoint');
+        const assertion = expect(promise).rejects.toBeInstanceOf(TimeoutError);
+
+        await vi.advanceTimersByTimeAsync(1000);
+        await assertion;
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should apply per-call timeout', async () => {
+      vi.useFakeTimers();
+      try {
+        mockFetch.mockImplementationOnce(hangingFetch);
+
+        const promise = createApi({ timeout: 60000 }).getReceiptJson('testuuid', undefined, { timeout: 500 });
+        const assertion = expect(promise).rejects.toThrow(TimeoutError);
+
+        await vi.advanceTimersByTimeAsync(500);
+        await assertion;
+
+        const error = await promise.catch((e) => e);
+        expect(error).toBeInstanceOf(NetworkError);
+        expect(error.code).toBe('TIMEOUT');
+        expect(error).not.toBeInstanceOf(ServerError);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should abort request with external signal', async () => {
+      mockFetch.mockImplementationOnce(hangingFetch);
+
+      const controller = new AbortController();
+      const promise = createApi().addIncome({ name: 'Услуга', amount: 100 }, { signal: controller.signal });
+
+      await vi.waitFor(() => expect(mockFetch).toHaveBeenCalled());
+      controller.abort(new Error('cancelled by user'));
+
+      await expect(promise).rejects.toThrow('cancelled by user');
+    });
+
+    it('should not retry aborted request', async () => {
+      const api = createApi({ retry: { maxAttempts: 3, baseDelay: 0 } });
+      mockFetch.mockImplementation(hangingFetch);
+
+      const controller = new AbortController();
+      const promise = api.call('some/endpoint', undefined, 'GET', { signal: controller.signal });
+
+      await vi.waitFor(() => expect(mockFetch).toHaveBeenCalled());
+      controller.abort();
+
+      await expect(promise).rejects.toThrow();
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not send request with already aborted signal', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(createApi().cancelIncome(
+        { receiptUuid: 'test-uuid', reason: CancelReason.CANCEL },
+        { signal: controller.signal }
+      )).rejects.toThrow();
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should apply per-call timeout to implicit token refresh', async () => {
+      vi.useFakeTimers();
+      try {
+        const api = createApi({ timeout: 1500 });
+        (api as any).authState.tokenExpireIn = new Date(Date.now() - 1000);
+        mockFetch.mockImplementationOnce(hangingFetch);
+
+        const promise = api.getUserInfo({ timeout: 100 });
+        const assertion = expect(promise).rejects.toBeInstanceOf(TimeoutError);
+
+        await vi.advanceTimersByTimeAsync(100);
+        await assertion;
+        expect(mockFetch.mock.calls[0][0]).toContain('/auth/token');
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should stop waiting for token refresh on abort', async () => {
+      const api = createApi();
+      mockFetch.mockImplementationOnce(hangingFetch);
+
+      const controller = new AbortController();
+      const promise = api.refreshAccessToken({ signal: controller.signal });
+
+      await vi.waitFor(() => expect(mockFetch).toHaveBeenCalled());
+      controller.abort(new Error('cancelled by user'));
+
+      await expect(promise).rejects.toThrow('cancelled by user');
+    });
+
+    it('should abort backoff delay between retries', async () => {
+      vi.useFakeTimers();
+      try {
+        const api = createApi({ retry: { maxAttempts: 3, baseDelay: 2000, jitter: false } });
+        mockFetch.mockResolvedValue({
+          ok: false,
+          status: 503,
+          text: () => Promise.resolve('{}'),
+        });
+
+        const controller = new AbortController();
+        const promise = api.call('some/endpoint', undefined, 'GET', { signal: controller.signal });
+        const assertion = expect(promise).rejects.toThrow('cancelled by user');
+
+        await vi.advanceTimersByTimeAsync(100);
+        controller.abort(new Error('cancelled by user'));
+        await assertion;
+        expect(mockFetch).toHaveBeenCalledTimes(1);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should apply timeout to requestSmsCode', async () => {
+      vi.useFakeTimers();
+      try {
+        mockFetch.mockImplementationOnce(hangingFetch);
+
+        const promise = new NalogApi().requestSmsCode('79991234567', { timeout: 100 });
+        const assertion = expect(promise).rejects.toBeInstanceOf(TimeoutError);
+
+        await vi.advanceTimersByTimeAsync(100);
+        await assertion;
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+
+  describe('custom transport', () => {
+    it('should send API requests through injected fetch', async () => {
+      const transport = vi.fn().mockResolvedValueOnce(
+        new Response(JSON.stringify({ approvedReceiptUuid: 'transport-uuid' }), { status: 200 })
+      );
+
+      const api = new NalogApi({ fetch: transport });
+      api.setTokens('test-token', 'test-refresh', '123456789012');
+
+      const receipt = await api.addIncome({ name: 'Услуга', amount: 100 });
+
+      expect(receipt.receiptUuid).toBe('transport-uuid');
+      expect(transport).toHaveBeenCalledWith(
+        'https://lknpd.nalog.ru/api/v1/income',
+        expect.objectContaining({ method: 'POST' })
+      );
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should use injected fetch for SMS code request', async () => {
+      const transport = vi.fn().mockResolvedValueOnce(
+        new Response(JSON.stringify({ challengeToken: 'challenge' }), { status: 200 })
+      );
+
+      const api = new NalogApi({ fetch: transport });
+      const challengeToken = await api.requestSmsCode('79991234567');
+
+      expect(challengeToken).toBe('challenge');
+      expect(transport).toHaveBeenCalledWith(
+        'https://lknpd.nalog.ru/api/v2/auth/challenge/sms/start',
+        expect.objectContaining({ method: 'POST' })
+      );
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('interceptors', () => {
+    it('should call hooks with request and response context', async () => {
+      const calls: string[] = [];
+      const beforeRequest = vi.fn((ctx: RequestContext) => {
+        calls.push('before');
+        ctx.headers['X-Trace-Id'] = 'trace-1';
+      });
+      const afterResponse = vi.fn(() => {
+        calls.push('after');
+      });
+
+      const api = new NalogApi({ interceptors: [{ beforeRequest, afterResponse }] });
+      api.setTokens('test-token', 'test-refresh', '123456789012');
+
+      mockFetch.mockResolvedValueOnce(
+        new Response(JSON.stringify({ approvedReceiptUuid: 'uuid' }), { status: 200 })
+      );
+
+      await api.addIncome({ name: 'Услуга', amount: 100 });
+
+      expect(calls).toEqual(['before', 'after']);
+      expect(beforeRequest).toHaveBeenCalledWith(expect.objectContaining({
+        method: 'POST',
+        endpoint: 'income',
+        url: 'https://lknpd.nalog.ru/api/v1/income',
+        attempt: 1,
+        body: expect.objectContaining({ totalAmount: '100' }),
+      }));
+      expect(afterResponse).toHaveBeenCalledWith(expect.objectContaining({
+        status: 200,
+        data: { approvedReceiptUuid: 'uuid' },
+        duration: expect.any(Number),
+      }));
+      expect(mockFetch.mock.calls[0][1].headers['X-Trace-Id']).toBe('trace-1');
+    });
+
+    it('should redact secrets in body and response', async () => {
+      const beforeRequest = vi.fn();
+      const afterResponse = vi.fn();
+      const api = new NalogApi({
+        inn: '123456789012',
+        password: 'secret',
+        interceptors: [{ beforeRequest, afterResponse }],
+      });
+
+      mockFetch.mockResolvedValueOnce(new Response(JSON.stringify({
+        token: 'access',
+        refreshToken: 'refresh',
+        tokenExpireIn: '2030-01-01T00:00:00Z',
+        profile: { inn: '123456789012' },
+      }), { status: 200 }));
+
+      await api.auth();
+
+      const requestBody = beforeRequest.mock.calls[0][0].body;
+      expect(requestBody.inn).toBe('123456789012');
+      expect(requestBody.password).toBe('[REDACTED]');
+      expect(afterResponse.mock.calls[0][0].data).toEqual(expect.objectContaining({
+        token: '[REDACTED]',
+        refreshToken: '[REDACTED]',
+        profile: { inn: '123456789012' },
+      }));
+      expect(JSON.parse(mockFetch.mock.calls[0][1].body).password).toBe('secret');
+    });
+
+    it('should call onError with typed error for non-2xx response', async () => {
+      const onError = vi.fn();
+      const api = new NalogApi({ interceptors: [{ onError }] });
+      api.setTokens('test-token', 'test-refresh', '123456789012');
+
+      mockFetch.mockResolvedValueOnce(
+        new Response(JSON.stringify({ code: 'validation.failed', message: 'Ошибка' }), { status: 400 })
+      );
+
+      await expect(api.addIncome({ name: 'Услуга', amount: 100 })).rejects.toThrow(ValidationError);
+
+      expect(onError).toHaveBeenCalledTimes(1);
+      expect(onError.mock.calls[0][0].error).toBeInstanceOf(ValidationError);
+      expect(onError.mock.calls[0][0].endpoint).toBe('income');
+    });
+
+    it('should call onError for network errors', async () => {
+      const onError = vi.fn();
+      const api = new NalogApi({ interceptors: [{ onError }] });
+      api.setTokens('test-token', 'test-refresh', '123456789012');
+
+      mockFetch.mockRejectedValueOnce(new TypeError('fetch failed'));
+
+      await expect(api.getUserInfo()).rejects.toThrow(NetworkError);
+      expect(onError.mock.calls[0][0].error).toBeInstanceOf(NetworkError);
+    });
+
+    it('should run hooks for each retry attempt', async () => {
+      vi.useFakeTimers();
+      try {
+        const beforeRequest = vi.fn();
+        const api = new NalogApi({
+          retry: { maxAttempts: 2, baseDelay: 10, jitter: false },
+          interceptors: [{ beforeRequest }],
+        });
+        api.setTokens('test-token', 'test-refresh', '123456789012');
+
+        mockFetch
+          .mockResolvedValueOnce(new Response('', { status: 503 }))
+          .mockResolvedValueOnce(new Response(JSON.stringify({ inn: '123456789012' }), { status: 200 }));
+
+        const promise = api.getUserInfo();
+        await vi.runAllTimersAsync();
+        await promise;
+
+        expect(beforeRequest.mock.calls.map(([ctx]) => ctx.attempt)).toEqual([1, 2]);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should hide access token from hooks but send it', async () => {
+      const beforeRequest = vi.fn();
+      const api = new NalogApi({ interceptors: [{ beforeRequest }] });
+      api.setTokens('secret-access', 'test-refresh', '123456789012');
+
+      mockFetch.mockResolvedValueOnce(new Response(JSON.stringify({}), { status: 200 }));
+      await api.getUserInfo();
+
+      expect(beforeRequest.mock.calls[0][0].headers.Authorization).toBe('Bearer [REDACTED]');
+      expect(mockFetch.mock.calls[0][1].headers.Authorization).toBe('Bearer secret-access');
+    });
+
+    it('should redact phone and SMS code when authorizing by phone', async () => {
+      const beforeRequest = vi.fn();
+      const api = new NalogApi({ interceptors: [{ beforeRequest }] });
+
+      mockFetch.mockResolvedValueOnce(new Response(JSON.stringify({
+        token: 'access',
+        refreshToken: 'refresh',
+        tokenExpireIn: '2030-01-01T00:00:00Z',
+        profile: { inn: '123456789012' },
+      }), { status: 200 }));
+
+      await api.authByPhone('79991234567', 'challenge', '123456');
+
+      expect(beforeRequest.mock.calls[0][0].body).toEqual(expect.objectContaining({
+        phone: '+7********67',
+        code: '[REDACTED]',
+        challengeToken: '[REDACTED]',
+      }));
+    });
+
+    it('should add and remove interceptors via use()', async () => {
+      const afterResponse = vi.fn();
+      const api = new NalogApi();
+      api.setTokens('test-token', 'test-refresh', '123456789012');
+
+      const remove = api.use({ afterResponse });
+
+      mockFetch
+        .mockResolvedValueOnce(new Response(JSON.stringify({ inn: '1' }), { status: 200 }))
+        .mockResolvedValueOnce(new Response(JSON.stringify({ inn: '1' }), { status: 200 }));
+
+      await api.getUserInfo();
+      remove();
+      await api.getUserInfo();
+
+      expect(afterResponse).toHaveBeenCalledTimes(1);
+    });
+
+    it('should share meta between hooks of one request', async () => {
+      let seen: unknown;
+      const api = new NalogApi({
+        interceptors: [{
+          beforeRequest: (ctx) => { ctx.meta.span = 'span-1'; },
+          afterResponse: (ctx) => { seen = ctx.meta.span; },
+        }],
+      });
+      api.setTokens('test-token', 'test-refresh', '123456789012');
+
+      mockFetch.mockResolvedValueOnce(new Response(JSON.stringify({}), { status: 200 }));
+      await api.getUserInfo();
+
+      expect(seen).toBe('span-1');
+    });
+  });
+
+  describe('logger', () => {
+    const authBody = {
+      token: 'access',
+      refreshToken: 'refresh',
+      tokenExpireIn: '2030-01-01T00:00:00Z',
+      profile: { inn: '123456789012' },
+    };
+
+    it('should log authentication and API calls with timing', async () => {
+      const logger = createLogger();
+      const api = new NalogApi({ logger });
+
+      mockFetch.mockResolvedValueOnce(new Response(JSON.stringify(authBody), { status: 200 }));
+      await api.authByInn('123456789012', 'password');
+
+      expect(logger.info).toHaveBeenCalledWith('Authenticated', expect.objectContaining({
+        event: 'auth',
+        method: 'inn',
+        inn: '123456789012',
+      }));
+      expect(logger.debug).toHaveBeenCalledWith('API request', expect.objectContaining({
+        event: 'api.request',
+        method: 'POST',
+        endpoint: 'auth/lkfl',
+        status: 200,
+        duration: expect.any(Number),
+      }));
+      expect(JSON.stringify(logger.info.mock.calls)).not.toContain('password');
+    });
+
+    it('should log failed authentication', async () => {
+      const logger = createLogger();
+      const api = new NalogApi({ logger });
+
+      mockFetch.mockResolvedValueOnce(new Response(JSON.stringify({ message: 'Неверный пароль' }), { status: 401 }));
+
+      await expect(api.authByInn('123456789012', 'wrong')).rejects.toThrow(AuthenticationError);
+      expect(logger.warn).toHaveBeenCalledWith('Authentication failed', expect.objectContaining({
+        event: 'auth.failed',
+        error: expect.any(AuthenticationError),
+      }));
+    });
+
+    it('should log token refresh', async () => {
+      const logger = createLogger();
+      const api = new NalogApi({ logger });
+      api.setTokens('old', 'refresh-token');
+
+      mockFetch.mockResolvedValueOnce(new Response(JSON.stringify(authBody), { status: 200 }));
+      await api.refreshAccessToken();
+
+      expect(logger.info).toHaveBeenCalledWith('Access token refreshed', {
+        event: 'token.refresh',
+        expiresAt: '2030-01-01T00:00:00Z',
+      });
+    });
+
+    it('should log retries', async () => {
+      vi.useFakeTimers();
+      try {
+        const logger = createLogger();
+        const api = new NalogApi({ logger, retry: { maxAttempts: 2, baseDelay: 10, jitter: false } });
+        api.setTokens('test-token', 'test-refresh', '123456789012');
+
+        mockFetch
+          .mockResolvedValueOnce(new Response('', { status: 503 }))
+          .mockResolvedValueOnce(new Response(JSON.stringify({}), { status: 200 }));
+
+        const promise = api.getUserInfo();
+        await vi.runAllTimersAsync();
+        await promise;
+
+        expect(logger.warn).toHaveBeenCalledWith('Retrying request', {
+          event: 'api.retry',
+          method: 'GET',
+          endpoint: 'user',
+          attempt: 1,
+          delay: 10,
+          reason: 503,
+        });
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should log token load and save', async () => {
+      const logger = createLogger();
+      const store = new MemoryTokenStore({
+        accessToken: 'access',
+        refreshToken: 'refresh',
+        tokenExpireIn: '2030-01-01T00:00:00Z',
+        inn: '123456789012',
+        deviceId: 'device',
+        savedAt: '2026-01-01T00:00:00Z',
+      });
+      const api = new NalogApi({ tokenStore: store, logger });
+
+      await api.restoreSession();
+      expect(logger.info).toHaveBeenCalledWith('Session restored from token store', expect.objectContaining({
+        event: 'tokens.load',
+        restored: true,
+      }));
+
+      mockFetch.mockResolvedValueOnce(new Response(JSON.stringify(authBody), { status: 200 }));
+      await api.refreshAccessToken();
+      expect(logger.debug).toHaveBeenCalledWith('Tokens saved', expect.objectContaining({ event: 'tokens.save' }));
+    });
+
+    it('should mask phone in SMS logs', async () => {
+      const logger = createLogger();
+      const api = new NalogApi({ logger });
+
+      mockFetch.mockResolvedValueOnce(new Response(JSON.stringify({ challengeToken: 'challenge' }), { status: 200 }));
+      await api.requestSmsCode('79991234567');
+
+      expect(logger.info).toHaveBeenCalledWith('SMS code requested', { event: 'auth.sms', phone: '+7********67' });
+    });
+  });
+
+  describe('amounts', () => {
+    const receiptResponse = () => new Response(JSON.stringify({ approvedReceiptUuid: 'uuid' }), { status: 200 });
+
+    it('should compute total in kopecks', async () => {
+      const api = new NalogApi();
+      api.setTokens('test-token', 'test-refresh', '123456789012');
+      mockFetch.mockResolvedValueOnce(receiptResponse());
+
+      await api.addMultipleIncome({
+        services: [
+          { name: 'Первая', amount: 0.1 },
+          { name: 'Вторая', amount: 0.2 },
+          { name: 'Третья', amount: 33.333333, quantity: 3 },
+        ],
+      });
+
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(body.services.map((s: { amount: string }) => s.amount)).toEqual(['0.1', '0.2', '33.33']);
+      expect(body.totalAmount).toBe('100.29');
+    });
+
+    it('should accept string rubles and bigint kopecks', async () => {
+      const api = new NalogApi();
+      api.setTokens('test-token', 'test-refresh', '123456789012');
+      mockFetch.mockResolvedValueOnce(receiptResponse()).mockResolvedValueOnce(receiptResponse());
+
+      await api.addIncome({ name: 'Услуга', amount: '1500.50', quantity: 2 });
+      await api.addIncome({ name: 'Услуга', amount: 150050n });
+
+      const first = JSON.parse(mockFetch.mock.calls[0][1].body);
+      const second = JSON.parse(mockFetch.mock.calls[1][1].body);
+      expect(first.services[0].amount).toBe('1500.5');
+      expect(first.totalAmount).toBe('3001');
+      expect(second.totalAmount).toBe('1500.5');
+    });
+
+    it('should reject amount that rounds to zero', async () => {
+      const api = new NalogApi();
+      api.setTokens('test-token', 'test-refresh', '123456789012');
+
+      await expect(api.addIncome({ name: 'Услуга', amount: 0.001 })).rejects.toThrow(ReceiptValidationError);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('counterparty lookup', () => {
+    const company = { inn: '7707083893', name: 'ПАО СБЕРБАНК', kpp: '773601001', ogrn: '1027700132195' };
+
+    it('should find counterparty by INN', async () => {
+      const api = new NalogApi();
+      api.setTokens('test-token', 'test-refresh', '123456789012');
+      mockFetch.mockResolvedValueOnce(new Response(JSON.stringify(company), { status: 200 }));
+
+      const result = await api.findCounterparty('7707083893');
+
+      expect(result).toEqual(company);
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://lknpd.nalog.ru/api/v1/company/7707083893',
+        expect.objectContaining({ method: 'GET' })
+      );
+    });
+
+    it('should return null when counterparty is not found', async () => {
+      const api = new NalogApi();
+      api.setTokens('test-token', 'test-refresh', '123456789012');
+      mockFetch.mockResolvedValueOnce(new Response(JSON.stringify({ message: 'Not found' }), { status: 404 }));
+
+      expect(await api.findCounterparty('7707083893')).toBeNull();
+    });
+
+    it('should reject invalid INN without request', async () => {
+      const api = new NalogApi();
+      api.setTokens('test-token', 'test-refresh', '123456789012');
+
+      await expect(api.findCounterparty('7707083894')).rejects.toThrow(ValidationError);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should fill client name from INN in addIncome', async () => {
+      const api = new NalogApi();
+      api.setTokens('test-token', 'test-refresh', '123456789012');
+      mockFetch
+        .mockResolvedValueOnce(new Response(JSON.stringify(company), { status: 200 }))
+        .mockResolvedValueOnce(new Response(JSON.stringify({ approvedReceiptUuid: 'uuid' }), { status: 200 }));
+
+      await api.addIncome({
+        name: 'Услуга',
+        amount: 1000,
+        client: { incomeType: IncomeType.FROM_LEGAL_ENTITY, inn: '7707083893' },
+        resolveClientName: true,
+      });
+
+      const body = JSON.parse(mockFetch.mock.calls[1][1].body);
+      expect(body.client.displayName).toBe('ПАО СБЕРБАНК');
+    });
+
+    it('should keep explicit client name', async () => {
+      const api = new NalogApi();
+      api.setTokens('test-token', 'test-refresh', '123456789012');
+      mockFetch.mockResolvedValueOnce(new Response(JSON.stringify({ approvedReceiptUuid: 'uuid' }), { status: 200 }));
+
+      await api.addMultipleIncome({
+        services: [{ name: 'Услуга', amount: 1000 }],
+        client: { incomeType: IncomeType.FROM_LEGAL_ENTITY, inn: '7707083893', displayName: 'Сбер' },
+        resolveClientName: true,
       });
 
-      expect(mockFetch).toHaveBeenCalledWith(
-        expect.anything(),
-        expect.objectContaining({
-          body: expect.stringContaining('Чек сформирован ошибочно'),
-        })
-      );
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(JSON.parse(mockFetch.mock.calls[0][1].body).client.displayName).toBe('Сбер');
     });
 
-    it('should use custom comment over reason', async () => {
+    it('should not look up individual client INN', async () => {
+      const api = createApi();
+      mockFetch.mockResolvedValueOnce(json({ approvedReceiptUuid: 'uuid' }));
+
+      await api.addIncome({
+        name: 'Услуга',
+        amount: 1000,
+        client: { incomeType: IncomeType.FROM_INDIVIDUAL, inn: '500100732259' },
+        resolveClientName: true,
+      });
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(mockFetch.mock.calls[0][0]).toContain('/income');
+      expect(JSON.parse(mockFetch.mock.calls[0][1].body).client.displayName).toBeNull();
+    });
+
+    it('should fail when counterparty for receipt is not found', async () => {
       const api = new NalogApi();
       api.setTokens('test-token', 'test-refresh', '123456789012');
+      mockFetch.mockResolvedValueOnce(new Response('', { status: 404 }));
 
-      mockFetch.mockResolvedValueOnce({
-        ok: true,
-        text: () => Promise.resolve(JSON.stringify({
-          approvedReceiptUuid: 'cancelled-uuid',
-        })),
+      const error = await api.addIncome({
+        name: 'Услуга',
+        amount: 1000,
+        client: { incomeType: IncomeType.FROM_LEGAL_ENTITY, inn: '7707083893' },
+        resolveClientName: true,
+      }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error.code).toBe('COUNTERPARTY_NOT_FOUND');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('invoices', () => {
+    const invoice = {
+      invoiceId: 'inv-1',
+      status: InvoiceStatus.CREATED,
+      services: [{ name: 'Услуга', amount: 1000, quantity: 2 }],
+      totalAmount: 2000,
+      client: { incomeType: IncomeType.FROM_INDIVIDUAL, displayName: null, contactPhone: null, inn: null },
+      paymentType: PaymentType.ACCOUNT,
+      createdAt: '2025-01-15T12:00:00+03:00',
+    };
+
+    it('should create invoice with exact total', async () => {
+      const api = createApi();
+      mockFetch.mockResolvedValueOnce(json(invoice));
+
+      const result = await api.createInvoice({
+        services: [{ name: 'Услуга', amount: 1000, quantity: 2 }, { name: 'Доставка', amount: '0.1' }],
       });
 
-      await api.cancelIncome({
-        receiptUuid: 'test-uuid',
-        reason: CancelReason.REFUND,
-        comment: 'Пользовательский комментарий',
+      expect(result.invoiceId).toBe('inv-1');
+      expect(mockFetch.mock.calls[0][0]).toBe('https://lknpd.nalog.ru/api/v1/invoice');
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(body.paymentType).toBe('ACCOUNT');
+      expect(body.totalAmount).toBe('2000.1');
+      expect(body.client.incomeType).toBe('FROM_INDIVIDUAL');
+    });
+
+    it('should validate invoice before sending', async () => {
+      const api = createApi();
+
+      await expect(api.createInvoice({ services: [] })).rejects.toThrow(ReceiptValidationError);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should list invoices with filters', async () => {
+      const api = createApi();
+      mockFetch.mockResolvedValueOnce(json({ items: [invoice], hasMore: false, currentOffset: 0, currentLimit: 10 }));
+
+      const page = await api.listInvoices({ status: InvoiceStatus.CREATED, limit: 10 });
+
+      expect(page.items).toHaveLength(1);
+      const url = new URL(mockFetch.mock.calls[0][0]);
+      expect(url.pathname).toBe('/api/v1/invoices');
+      expect(url.searchParams.get('status')).toBe('CREATED');
+      expect(url.searchParams.get('limit')).toBe('10');
+      expect(url.searchParams.get('offset')).toBe('0');
+    });
+
+    it('should fetch and cancel invoice', async () => {
+      const api = createApi();
+      mockFetch
+        .mockResolvedValueOnce(json(invoice))
+        .mockResolvedValueOnce(json({ ...invoice, status: InvoiceStatus.CANCELLED }));
+
+      expect((await api.getInvoice('inv-1')).status).toBe(InvoiceStatus.CREATED);
+      expect((await api.cancelInvoice('inv-1')).status).toBe(InvoiceStatus.CANCELLED);
+      expect(mockFetch.mock.calls[0][0]).toBe('https://lknpd.nalog.ru/api/v1/invoice/inv-1');
+      expect(mockFetch.mock.calls[1][0]).toBe('https://lknpd.nalog.ru/api/v1/invoice/inv-1/cancel');
+      expect(mockFetch.mock.calls[1][1].method).toBe('POST');
+    });
+
+    it('should produce receipt linked to invoice when paid', async () => {
+      const api = createApi();
+      mockFetch.mockResolvedValueOnce(json({ approvedReceiptUuid: 'receipt-uuid' }));
+
+      const receipt = await api.markInvoicePaid('inv-1', { paymentType: PaymentType.CASH });
+
+      expect(receipt).toEqual({
+        receiptUuid: 'receipt-uuid',
+        invoiceId: 'inv-1',
+        printUrl: 'https://lknpd.nalog.ru/api/v1/receipt/123456789012/receipt-uuid/print',
+        jsonUrl: 'https://lknpd.nalog.ru/api/v1/receipt/123456789012/receipt-uuid/json',
+      });
+      expect(mockFetch.mock.calls[0][0]).toBe('https://lknpd.nalog.ru/api/v1/invoice/inv-1/approve');
+      expect(JSON.parse(mockFetch.mock.calls[0][1].body).paymentType).toBe('CASH');
+    });
+  });
+
+  describe('payment details', () => {
+    const account = {
+      id: 5,
+      type: PaymentDetailsType.ACCOUNT,
+      bankName: 'ПАО Сбербанк',
+      bankBik: '044525225',
+      corrAccount: '30101810400000000225',
+      currentAccount: '40817810001000000001',
+      phone: null,
+      favorite: false,
+    };
+
+    it('should list payment details', async () => {
+      const api = createApi();
+      mockFetch.mockResolvedValueOnce(json({ items: [account] }));
+
+      expect(await api.listPaymentDetails()).toEqual([account]);
+      expect(mockFetch.mock.calls[0][0]).toBe('https://lknpd.nalog.ru/api/v1/payment-type/table');
+    });
+
+    it('should create bank account after validation', async () => {
+      const api = createApi();
+      mockFetch.mockResolvedValueOnce(json(account));
+
+      const { id: _id, favorite: _favorite, ...params } = account;
+      const created = await api.createPaymentDetails(params);
+
+      expect(created.id).toBe(5);
+      expect(mockFetch.mock.calls[0][1].method).toBe('POST');
+      expect(JSON.parse(mockFetch.mock.calls[0][1].body)).toEqual(params);
+    });
+
+    it('should reject invalid account without request', async () => {
+      const api = createApi();
+
+      const error = await api.createPaymentDetails({
+        type: PaymentDetailsType.ACCOUNT,
+        bankName: 'ПАО Сбербанк',
+        bankBik: '044525225',
+        currentAccount: '40817810001000000002',
+      }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(PaymentDetailsValidationError);
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error.issues[0].field).toBe('currentAccount');
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should normalize SBP phone', async () => {
+      const api = createApi();
+      mockFetch.mockResolvedValueOnce(json({ id: 6, type: 'PHONE', bankName: 'Т-Банк', phone: '79991234567', favorite: false }));
+
+      await api.createPaymentDetails({ type: PaymentDetailsType.PHONE, bankName: 'Т-Банк', phone: '8 999 123-45-67' });
+
+      expect(JSON.parse(mockFetch.mock.calls[0][1].body).phone).toBe('79991234567');
+    });
+
+    it('should update payment details merging current values', async () => {
+      const api = createApi();
+      mockFetch
+        .mockResolvedValueOnce(json({ items: [account] }))
+        .mockResolvedValueOnce(json({ ...account, bankName: 'Сбербанк' }));
+
+      await api.updatePaymentDetails(5, { bankName: 'Сбербанк' });
+
+      expect(mockFetch.mock.calls[1][0]).toBe('https://lknpd.nalog.ru/api/v1/payment-type/5');
+      expect(mockFetch.mock.calls[1][1].method).toBe('PUT');
+      expect(JSON.parse(mockFetch.mock.calls[1][1].body)).toEqual(expect.objectContaining({
+        bankName: 'Сбербанк',
+        currentAccount: '40817810001000000001',
+      }));
+    });
+
+    it('should fail to update unknown payment details', async () => {
+      const api = createApi();
+      mockFetch.mockResolvedValueOnce(json({ items: [] }));
+
+      await expect(api.updatePaymentDetails(9, { bankName: 'Банк' })).rejects.toThrow('не найдены');
+    });
+
+    it('should delete and set favourite', async () => {
+      const api = createApi();
+      mockFetch
+        .mockResolvedValueOnce(new Response('', { status: 200 }))
+        .mockResolvedValueOnce(new Response('', { status: 200 }));
+
+      await api.deletePaymentDetails(5);
+      await api.setFavoritePaymentDetails(6);
+
+      expect(mockFetch.mock.calls[0]).toEqual([
+        'https://lknpd.nalog.ru/api/v1/payment-type/5',
+        expect.objectContaining({ method: 'DELETE' }),
+      ]);
+      expect(mockFetch.mock.calls[1]).toEqual([
+        'https://lknpd.nalog.ru/api/v1/payment-type/6/favorite',
+        expect.objectContaining({ method: 'POST' }),
+      ]);
+    });
+  });
+
+  describe('notifications', () => {
+    const notification = {
+      id: 'n-1',
+      title: 'Налог к уплате',
+      message: 'Оплатите налог до 28 числа',
+      type: 'TAX_DUE',
+      createdAt: '2025-02-10T10:00:00+03:00',
+      read: false,
+    };
+
+    it('should list notifications with paging', async () => {
+      const api = createApi();
+      mockFetch.mockResolvedValueOnce(json({ items: [notification], hasMore: true, currentOffset: 20, currentLimit: 20 }));
+
+      const page = await api.listNotifications({ offset: 20, unreadOnly: true });
+
+      expect(page.items).toEqual([notification]);
+      expect(page.hasMore).toBe(true);
+      const url = new URL(mockFetch.mock.calls[0][0]);
+      expect(url.pathname).toBe('/api/v1/notifications');
+      expect(url.searchParams.get('offset')).toBe('20');
+      expect(url.searchParams.get('limit')).toBe('20');
+      expect(url.searchParams.get('unreadOnly')).toBe('true');
+    });
+
+    it('should not send unreadOnly by default', async () => {
+      const api = createApi();
+      mockFetch.mockResolvedValueOnce(json({ items: [], hasMore: false, currentOffset: 0, currentLimit: 20 }));
+
+      await api.listNotifications();
+
+      expect(new URL(mockFetch.mock.calls[0][0]).searchParams.has('unreadOnly')).toBe(false);
+    });
+
+    it('should get unread count', async () => {
+      const api = createApi();
+      mockFetch.mockResolvedValueOnce(json({ count: 3 }));
+
+      expect(await api.getUnreadNotificationCount()).toBe(3);
+      expect(mockFetch.mock.calls[0][0]).toBe('https://lknpd.nalog.ru/api/v1/notifications/count');
+    });
+
+    it('should mark one and all notifications read', async () => {
+      const api = createApi();
+      mockFetch
+        .mockResolvedValueOnce(new Response('', { status: 200 }))
+        .mockResolvedValueOnce(new Response('', { status: 200 }));
+
+      await api.markNotificationRead('n-1');
+      await api.markAllNotificationsRead();
+
+      expect(mockFetch.mock.calls[0]).toEqual([
+        'https://lknpd.nalog.ru/api/v1/notifications/n-1/read',
+        expect.objectContaining({ method: 'POST' }),
+      ]);
+      expect(mockFetch.mock.calls[1]).toEqual([
+        'https://lknpd.nalog.ru/api/v1/notifications/read-all',
+        expect.objectContaining({ method: 'POST' }),
+      ]);
+    });
+  });
+
+  describe('client directory', () => {
+    const savedClient = {
+      id: 42,
+      incomeType: IncomeType.FROM_LEGAL_ENTITY,
+      displayName: 'ООО "Компания"',
+      inn: '7707083893',
+      contactPhone: null,
+    };
+
+    it('should list clients', async () => {
+      const api = createApi();
+      mockFetch.mockResolvedValueOnce(json({ items: [savedClient] }));
+
+      expect(await api.listClients()).toEqual([savedClient]);
+      expect(mockFetch.mock.calls[0][0]).toBe('https://lknpd.nalog.ru/api/v1/clients');
+    });
+
+    it('should return null for unknown client', async () => {
+      const api = createApi();
+      mockFetch.mockResolvedValueOnce(json({ message: 'Not found' }, 404));
+
+      expect(await api.getClient(7)).toBeNull();
+    });
+
+    it('should create client', async () => {
+      const api = createApi();
+      mockFetch.mockResolvedValueOnce(json(savedClient));
+
+      const client = await api.createClient({
+        incomeType: IncomeType.FROM_LEGAL_ENTITY,
+        displayName: 'ООО "Компания"',
+        inn: '7707083893',
       });
 
+      expect(client.id).toBe(42);
+      expect(mockFetch.mock.calls[0][1].method).toBe('POST');
+      expect(JSON.parse(mockFetch.mock.calls[0][1].body)).toEqual({
+        incomeType: 'FROM_LEGAL_ENTITY',
+        displayName: 'ООО "Компания"',
+        contactPhone: null,
+        inn: '7707083893',
+      });
+    });
+
+    it('should update client keeping other fields', async () => {
+      const api = createApi();
+      mockFetch
+        .mockResolvedValueOnce(json(savedClient))
+        .mockResolvedValueOnce(json({ ...savedClient, contactPhone: '79991234567' }));
+
+      const client = await api.updateClient(42, { contactPhone: '79991234567' });
+
+      expect(client.contactPhone).toBe('79991234567');
+      expect(mockFetch.mock.calls[1][0]).toBe('https://lknpd.nalog.ru/api/v1/clients/42');
+      expect(mockFetch.mock.calls[1][1].method).toBe('PUT');
+      expect(JSON.parse(mockFetch.mock.calls[1][1].body)).toEqual(expect.objectContaining({
+        displayName: 'ООО "Компания"',
+        contactPhone: '79991234567',
+      }));
+    });
+
+    it('should delete client', async () => {
+      const api = createApi();
+      mockFetch.mockResolvedValueOnce(new Response('', { status: 200 }));
+
+      await api.deleteClient(42);
+
       expect(mockFetch).toHaveBeenCalledWith(
-        expect.anything(),
-        expect.objectContaining({
-          body: expect.stringContaining('Пользовательский комментарий'),
-        })
+        'https://lknpd.nalog.ru/api/v1/clients/42',
+        expect.objectContaining({ method: 'DELETE' })
       );
     });
+
+    it('should use saved client in addIncome', async () => {
+      const api = createApi();
+      mockFetch
+        .mockResolvedValueOnce(json(savedClient))
+        .mockResolvedValueOnce(json({ approvedReceiptUuid: 'uuid' }));
+
+      await api.addIncome({ name: 'Услуга', amount: 1000, clientId: 42, client: { contactPhone: '79991234567' } });
+
+      const body = JSON.parse(mockFetch.mock.calls[1][1].body);
+      expect(body.client).toEqual({
+        incomeType: 'FROM_LEGAL_ENTITY',
+        displayName: 'ООО "Компания"',
+        contactPhone: '79991234567',
+        inn: '7707083893',
+      });
+    });
+
+    it('should fail for unknown client id in addIncome', async () => {
+      const api = createApi();
+      mockFetch.mockResolvedValueOnce(json({}, 404));
+
+      const error = await api.addMultipleIncome({
+        services: [{ name: 'Услуга', amount: 1000 }],
+        clientId: 7,
+      }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error.code).toBe('CLIENT_NOT_FOUND');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should validate amount before loading saved client', async () => {
+      const api = createApi();
+
+      const error = await api.addIncome({ name: 'Услуга', amount: NaN, clientId: 42 }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(ReceiptValidationError);
+      expect(error.issues.map((issue: { field: string }) => issue.field)).toEqual(['amount']);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should validate invoice services before loading saved client', async () => {
+      const api = createApi();
+
+      await expect(api.createInvoice({
+        services: [{ name: '', amount: 1000 }],
+        clientId: 42,
+      })).rejects.toThrow(ReceiptValidationError);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
   });
 
-  describe('request error handling', () => {
-    it('should handle non-JSON error response', async () => {
+  describe('receipt validation', () => {
+    it('should reject invalid income without sending request', async () => {
       const api = new NalogApi();
       api.setTokens('test-token', 'test-refresh', '123456789012');
 
-      mockFetch.mockResolvedValueOnce({
-        ok: false,
-        status: 500,
-        text: () => Promise.resolve('Internal Server Error'),
-      });
+      const error = await api.addIncome({ name: '', amount: -5 }).catch((e) => e);
 
-      await expect(api.call('some/endpoint'))
-        .rejects.toThrow('HTTP Error: 500');
+      expect(error).toBeInstanceOf(ReceiptValidationError);
+      expect(error.issues.map((issue: { field: string }) => issue.field)).toEqual(['name', 'amount']);
+      expect(mockFetch).not.toHaveBeenCalled();
     });
 
-    it('should handle empty response', async () => {
+    it('should validate multiple income services and client', async () => {
       const api = new NalogApi();
       api.setTokens('test-token', 'test-refresh', '123456789012');
 
-      mockFetch.mockResolvedValueOnce({
-        ok: true,
-        text: () => Promise.resolve(''),
-      });
+      await expect(api.addMultipleIncome({
+        services: [{ name: 'Услуга', amount: 100, quantity: 0 }],
+        client: { incomeType: IncomeType.FROM_LEGAL_ENTITY, displayName: 'ООО' },
+      })).rejects.toThrow(ReceiptValidationError);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
 
-      const result = await api.call('some/endpoint');
+    it('should reject unrecognized client phone', async () => {
+      const api = new NalogApi();
+      api.setTokens('test-token', 'test-refresh', '123456789012');
 
-      expect(result).toBeNull();
+      const error = await api.addIncome({
+        name: 'Услуга',
+        amount: 100,
+        client: { contactPhone: '12-34' },
+      }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(ReceiptValidationError);
+      expect(error.issues[0].field).toBe('client.contactPhone');
+    });
+
+    it('should skip validation when disabled', async () => {
+      const api = new NalogApi({ validateIncome: false });
+      api.setTokens('test-token', 'test-refresh', '123456789012');
+
+      mockFetch.mockResolvedValueOnce(
+        new Response(JSON.stringify({ approvedReceiptUuid: 'uuid' }), { status: 200 })
+      );
+
+      await api.addIncome({ name: 'Услуга', amount: 100, operationTime: new Date('2020-01-01') });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
     });
   });
 
@@ -826,7 +2862,7 @@ describe('NalogApi', () => {
     });
 
     it('should use custom operation time', async () => {
-      const api = new NalogApi();
+      const api = new NalogApi({ validateIncome: false });
       api.setTokens('test-token', 'test-refresh', '123456789012');
 
       mockFetch.mockResolvedValueOnce({
@@ -860,7 +2896,7 @@ describe('NalogApi', () => {
         })),
       });
 
-      await api.getReceiptJson('test-uuid', '222222222222');
+      await api.getReceiptJson('testuuid', '222222222222');
 
       expect(mockFetch).toHaveBeenCalledWith(
         expect.stringContaining('222222222222'),
@@ -869,6 +2905,222 @@ describe('NalogApi', () => {
     });
   });
 
+  describe('receipt download', () => {
+    const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+    it('should download print form with auth header', async () => {
+      const api = createApi();
+      mockFetch.mockResolvedValueOnce(new Response(png, { headers: { 'Content-Type': 'image/png' } }));
+
+      const file = await api.downloadReceipt('2026u7ia1u');
+
+      expect(file.data.equals(png)).toBe(true);
+      expect(file.contentType).toBe('image/png');
+      expect(file.fileName).toBe('receipt-2026u7ia1u.png');
+
+      const [url, init] = mockFetch.mock.calls[0];
+      expect(url).toBe('https://lknpd.nalog.ru/api/v1/receipt/123456789012/2026u7ia1u/print');
+      expect(init.headers.Authorization).toBe('Bearer test-token');
+      expect(init.headers.Accept).toContain('application/pdf');
+    });
+
+    it('should pick extension from content type', async () => {
+      const api = createApi();
+      mockFetch
+        .mockResolvedValueOnce(new Response(png, { headers: { 'Content-Type': 'application/pdf; charset=binary' } }))
+        .mockResolvedValueOnce(new Response(png));
+
+      expect((await api.downloadReceipt('a', '222222222222')).fileName).toBe('receipt-a.pdf');
+
+      const unknown = await api.downloadReceipt('b');
+      expect(unknown.fileName).toBe('receipt-b.bin');
+      expect(unknown.contentType).toBe('application/octet-stream');
+    });
+
+    it('should map error responses to NalogApiError', async () => {
+      const api = createApi();
+      mockFetch.mockResolvedValueOnce(new Response(
+        JSON.stringify({ code: 'receipt.not.found', message: 'Чек не найден' }),
+        { status: 404, headers: { 'Content-Type': 'application/json' } }
+      ));
+
+      const error = await api.downloadReceipt('missing').catch((e) => e);
+
+      expect(error).toBeInstanceOf(NalogApiError);
+      expect(error.status).toBe(404);
+    });
+
+    it('should save print form to file', async () => {
+      const api = createApi();
+      mockFetch.mockResolvedValueOnce(new Response(png, { headers: { 'Content-Type': 'image/png' } }));
+
+      const file = await api.saveReceiptToFile('2026u7ia1u', '/tmp/receipt.png');
+
+      expect(fs.promises.writeFile).toHaveBeenCalledWith('/tmp/receipt.png', file.data);
+      expect(fs.writeFileSync).not.toHaveBeenCalled();
+    });
+
+    it('should send print form to HTTP response', async () => {
+      const api = createApi();
+      mockFetch.mockResolvedValueOnce(new Response(png, { headers: { 'Content-Type': 'image/png' } }));
+      const res = { setHeader: vi.fn(), end: vi.fn() };
+
+      await api.sendReceipt('2026u7ia1u', res);
+
+      expect(res.setHeader).toHaveBeenCalledWith('Content-Type', 'image/png');
+      expect(res.setHeader).toHaveBeenCalledWith('Content-Length', String(png.length));
+      expect(res.setHeader).toHaveBeenCalledWith('Content-Disposition', 'inline; filename="receipt-2026u7ia1u.png"');
+      expect(res.end).toHaveBeenCalledWith(png);
+    });
+
+    it('should throw without INN', async () => {
+      const api = new NalogApi();
+      await expect(api.downloadReceipt('uuid')).rejects.toThrow('ИНН не указан');
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should reject receipt id and INN that are not plain identifiers', async () => {
+      const api = createApi();
+      const res = { setHeader: vi.fn(), end: vi.fn() };
+
+      const error = await api.sendReceipt('x/../../../v1/incomes?limit=1000&', res).catch((e) => e);
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error.code).toBe('INVALID_RECEIPT_UUID');
+
+      await expect(api.getReceiptJson('2026u7ia1u', '123/../incomes')).rejects.toMatchObject({ code: 'INVALID_INN' });
+      expect(() => api.getReceiptPrintUrl('a%2Fb')).toThrow(ValidationError);
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(res.end).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('listIncomes', () => {
+    it('should request incomes page with filters', async () => {
+      const api = new NalogApi();
+      api.setTokens('test-token', 'test-refresh', '123456789012');
+
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        text: () => Promise.resolve(JSON.stringify({
+          content: [{ approvedReceiptUuid: 'uuid-1', name: 'Услуга', totalAmount: 100 }],
+          hasMore: false,
+          currentOffset: 0,
+          currentLimit: 10,
+        })),
+      });
+
+      const result = await api.listIncomes({
+        from: new Date('2025-01-01T00:00:00Z'),
+        to: new Date('2025-01-31T00:00:00Z'),
+        sortBy: IncomeSortBy.TOTAL_AMOUNT_ASC,
+        limit: 10,
+        status: IncomeStatusFilter.CANCELLED,
+      });
+
+      expect(result.content[0].approvedReceiptUuid).toBe('uuid-1');
+      const url = new URL(mockFetch.mock.calls[0][0]);
+      expect(url.pathname).toBe('/api/v1/incomes');
+      expect(url.searchParams.get('from')).toMatch(/^2025-01-01T/);
+      expect(url.searchParams.get('sortBy')).toBe('total_amount:asc');
+      expect(url.searchParams.get('limit')).toBe('10');
+      expect(url.searchParams.get('offset')).toBe('0');
+      expect(url.searchParams.get('receiptType')).toBe('CANCELLED');
+    });
+
+    it('should iterate over all pages', async () => {
+      const api = new NalogApi();
+      api.setTokens('test-token', 'test-refresh', '123456789012');
+
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: true,
+          text: () => Promise.resolve(JSON.stringify({
+            content: [{ approvedReceiptUuid: 'uuid-1' }, { approvedReceiptUuid: 'uuid-2' }],
+            hasMore: true,
+            currentOffset: 0,
+            currentLimit: 2,
+          })),
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          text: () => Promise.resolve(JSON.stringify({
+            content: [{ approvedReceiptUuid: 'uuid-3' }],
+            hasMore: false,
+            currentOffset: 2,
+            currentLimit: 2,
+          })),
+        });
+
+      const uuids: string[] = [];
+      for await (const income of api.iterateIncomes({ limit: 2 })) {
+        uuids.push(income.approvedReceiptUuid);
+      }
+
+      expect(uuids).toEqual(['uuid-1', 'uuid-2', 'uuid-3']);
+      expect(new URL(mockFetch.mock.calls[1][0]).searchParams.get('offset')).toBe('2');
+    });
+  });
+
+  describe('taxes', () => {
+    it('should get current tax summary', async () => {
+      const api = new NalogApi();
+      api.setTokens('test-token', 'test-refresh', '123456789012');
+
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        text: () => Promise.resolve(JSON.stringify({
+          totalForPayment: 400,
+          tax: 400,
+          debt: 0,
+          overpayment: 0,
+          penalty: 0,
+          nominalTax: 600,
+          nominalOverpayment: 0,
+          taxPeriodId: 202501,
+        })),
+      });
+
+      const result = await api.getTaxes();
+
+      expect(result.totalForPayment).toBe(400);
+      expect(mockFetch).toHaveBeenCalledWith(
+        expect.stringMatching(/\/taxes$/),
+        expect.objectContaining({ method: 'GET' })
+      );
+    });
+
+    it('should find tax period in history', async () => {
+      const api = new NalogApi();
+      api.setTokens('test-token', 'test-refresh', '123456789012');
+
+      const historyResponse = {
+        ok: true,
+        text: () => Promise.resolve(JSON.stringify({
+          records: [
+            { taxPeriodId: 202412, taxAmount: 100, taxBaseAmount: 2500 },
+            { taxPeriodId: 202501, taxAmount: 400, taxBaseAmount: 10000 },
+          ],
+        })),
+      };
+      mockFetch
+        .mockResolvedValueOnce(historyResponse)
+        .mockResolvedValueOnce(historyResponse);
+
+      const period = await api.getTaxPeriod(202501);
+      const missing = await api.getTaxPeriod(202301);
+
+      expect(period?.taxBaseAmount).toBe(10000);
+      expect(missing).toBeNull();
+      expect(mockFetch).toHaveBeenCalledWith(
+        expect.stringContaining('/taxes/history'),
+        expect.objectContaining({
+          method: 'POST',
+          body: JSON.stringify({ oktmo: null }),
+        })
+      );
+    });
+  });
+
   describe('NalogApiError', () => {
     it('should create error with all properties', () => {
       const error = new NalogApiError('Test error', 'TEST_CODE', { detail: 'test' });
@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileTokenStore, MemoryTokenStore, EncryptedFileTokenStore } from '../TokenStore.js';
+import { NalogApiError } from '../errors.js';
+import { SavedTokens } from '../types.js';
+
+const tokens: SavedTokens = {
+  accessToken: 'access-token',
+  refreshToken: 'refresh-token',
+  tokenExpireIn: '2025-12-31T23:59:59.000Z',
+  inn: '123456789012',
+  deviceId: 'device-id',
+  savedAt: '2025-01-01T00:00:00.000Z',
+};
+
+describe('TokenStore', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'lknpd-tokens-'));
+    filePath = path.join(dir, 'session-token.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('MemoryTokenStore', () => {
+    it('should save, load and clear tokens', async () => {
+      const store = new MemoryTokenStore();
+
+      expect(await store.load()).toBeNull();
+
+      await store.save(tokens);
+      expect(await store.load()).toEqual(tokens);
+
+      await store.clear();
+      expect(await store.load()).toBeNull();
+    });
+  });
+
+  describe('FileTokenStore', () => {
+    it('should save tokens as JSON file', async () => {
+      const store = new FileTokenStore(filePath);
+
+      expect(await store.load()).toBeNull();
+
+      await store.save(tokens);
+      expect(JSON.parse(fs.readFileSync(filePath, 'utf8'))).toEqual(tokens);
+      expect(await store.load()).toEqual(tokens);
+
+      await store.clear();
+      expect(fs.existsSync(filePath)).toBe(false);
+    });
+
+    it.skipIf(process.platform === 'win32')('should write file readable only by owner', async () => {
+      fs.writeFileSync(filePath, '{}', { mode: 0o644 });
+
+      await new FileTokenStore(filePath).save(tokens);
+
+      expect(fs.statSync(filePath).mode & 0o777).toBe(0o600);
+    });
+  });
+
+  describe('EncryptedFileTokenStore', () => {
+    it('should encrypt tokens with passphrase', async () => {
+      const store = new EncryptedFileTokenStore(filePath, 'secret-passphrase');
+
+      await store.save(tokens);
+
+      const raw = fs.readFileSync(filePath, 'utf8');
+      expect(raw).not.toContain('refresh-token');
+      expect(JSON.parse(raw).algorithm).toBe('aes-256-gcm');
+      expect(await store.load()).toEqual(tokens);
+    });
+
+    it('should encrypt tokens with 32-byte key', async () => {
+      const key = Buffer.alloc(32, 7);
+      await new EncryptedFileTokenStore(filePath, key).save(tokens);
+
+      expect(await new EncryptedFileTokenStore(filePath, key).load()).toEqual(tokens);
+    });
+
+    it('should throw NalogApiError on wrong key', async () => {
+      await new EncryptedFileTokenStore(filePath, 'right-key').save(tokens);
+
+      const store = new EncryptedFileTokenStore(filePath, 'wrong-key');
+
+      const error = await store.load().catch((e) => e);
+      expect(error).toBeInstanceOf(NalogApiError);
+      expect(error.message).toContain('неверный ключ');
+      expect(error.code).toBe('TOKEN_DECRYPT_FAILED');
+      expect(error.cause).toBeInstanceOf(Error);
+      expect(error.response).toBeUndefined();
+    });
+
+    it('should derive key once and use fresh IV on every save', async () => {
+      const store = new EncryptedFileTokenStore(filePath, 'secret-passphrase');
+
+      await store.save(tokens);
+      const first = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+      await store.save({ ...tokens, accessToken: 'next-access-token' });
+      const second = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+
+      expect(second.salt).toBe(first.salt);
+      expect(second.iv).not.toBe(first.iv);
+      expect(await new EncryptedFileTokenStore(filePath, 'secret-passphrase').load())
+        .toEqual({ ...tokens, accessToken: 'next-access-token' });
+    });
+
+    it('should load legacy plaintext file', async () => {
+      await new FileTokenStore(filePath).save(tokens);
+
+      expect(await new EncryptedFileTokenStore(filePath, 'secret').load()).toEqual(tokens);
+    });
+
+    it('should reject invalid key', () => {
+      expect(() => new EncryptedFileTokenStore(filePath, '')).toThrow(NalogApiError);
+      expect(() => new EncryptedFileTokenStore(filePath, Buffer.alloc(16))).toThrow(NalogApiError);
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import {
+  isValidInn,
+  isValidLegalInn,
+  isValidIndividualInn,
+  isValidKpp,
+  isValidOgrn,
+  isValidOgrnip,
+  isValidBik,
+  isValidBankAccount,
+  isValidCorrAccount,
+  isValidPhone,
+  normalizePhone,
+} from '../identifiers.js';
+import { ValidationError } from '../errors.js';
+
+describe('identifiers', () => {
+  describe('INN', () => {
+    it('should validate legal entity INN', () => {
+      expect(isValidLegalInn('7707083893')).toBe(true);
+      expect(isValidLegalInn('7707083894')).toBe(false);
+      expect(isValidLegalInn('500100732259')).toBe(false);
+    });
+
+    it('should validate individual INN', () => {
+      expect(isValidIndividualInn('500100732259')).toBe(true);
+      expect(isValidIndividualInn('500100732258')).toBe(false);
+      expect(isValidIndividualInn('7707083893')).toBe(false);
+    });
+
+    it('should accept both kinds', () => {
+      expect(isValidInn('7707083893')).toBe(true);
+      expect(isValidInn('500100732259')).toBe(true);
+      expect(isValidInn('77070838')).toBe(false);
+      expect(isValidInn('77070838ab')).toBe(false);
+    });
+  });
+
+  describe('KPP', () => {
+    it('should check KPP format', () => {
+      expect(isValidKpp('773601001')).toBe(true);
+      expect(isValidKpp('7736AB001')).toBe(true);
+      expect(isValidKpp('77360100')).toBe(false);
+      expect(isValidKpp('7736ab001')).toBe(false);
+    });
+  });
+
+  describe('OGRN', () => {
+    it('should validate OGRN checksum', () => {
+      expect(isValidOgrn('1027700132195')).toBe(true);
+      expect(isValidOgrn('1027700132194')).toBe(false);
+      expect(isValidOgrn('102770013219')).toBe(false);
+    });
+
+    it('should validate OGRNIP checksum', () => {
+      expect(isValidOgrnip('304500116000157')).toBe(true);
+      expect(isValidOgrnip('304500116000158')).toBe(false);
+      expect(isValidOgrnip('1027700132195')).toBe(false);
+    });
+  });
+
+  describe('bank details', () => {
+    it('should check BIK format', () => {
+      expect(isValidBik('044525225')).toBe(true);
+      expect(isValidBik('144525225')).toBe(false);
+      expect(isValidBik('04452522')).toBe(false);
+    });
+
+    it('should validate account checksum against BIK', () => {
+      expect(isValidBankAccount('40702810938000000001', '044525225')).toBe(true);
+      expect(isValidBankAccount('40702810938000000002', '044525225')).toBe(false);
+      expect(isValidBankAccount('40702810938000000001', '044525974')).toBe(false);
+      expect(isValidBankAccount('4070281093800000000', '044525225')).toBe(false);
+    });
+
+    it('should validate correspondent account against BIK', () => {
+      expect(isValidCorrAccount('30101810400000000225', '044525225')).toBe(true);
+      expect(isValidCorrAccount('30101810400000000226', '044525225')).toBe(false);
+      expect(isValidCorrAccount('40702810938000000001', '044525225')).toBe(false);
+    });
+  });
+
+  describe('normalizePhone', () => {
+    it('should normalize russian numbers to E.164', () => {
+      expect(normalizePhone('89991234567')).toBe('+79991234567');
+      expect(normalizePhone('79991234567')).toBe('+79991234567');
+      expect(normalizePhone('+7 (999) 123-45-67')).toBe('+79991234567');
+      expect(normalizePhone('9991234567')).toBe('+79991234567');
+    });
+
+    it('should keep international numbers with country code', () => {
+      expect(normalizePhone('+375 29 123-45-67')).toBe('+375291234567');
+    });
+
+    it('should reject unrecognized formats', () => {
+      expect(() => normalizePhone('123')).toThrow(ValidationError);
+      expect(() => normalizePhone('+7 999 123 45 6')).toThrow(ValidationError);
+      expect(() => normalizePhone('8999abc4567')).toThrow(ValidationError);
+      expect(() => normalizePhone('')).toThrow('Не удалось распознать номер телефона');
+    });
+
+    it('should report validity without throwing', () => {
+      expect(isValidPhone('+79991234567')).toBe(true);
+      expect(isValidPhone('12345')).toBe(false);
+    });
+  });
+});
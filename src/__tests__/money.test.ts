@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { toKopecks, formatKopecks, multiplyKopecks, formatAmount } from '../money.js';
+import { ValidationError } from '../errors.js';
+
+describe('money', () => {
+  describe('toKopecks', () => {
+    it('should convert rubles to kopecks', () => {
+      expect(toKopecks(1000)).toBe(100000n);
+      expect(toKopecks(0.01)).toBe(1n);
+      expect(toKopecks('1234.56')).toBe(123456n);
+      expect(toKopecks('1 234,5')).toBe(123450n);
+    });
+
+    it('should pass bigint kopecks as is', () => {
+      expect(toKopecks(150n)).toBe(150n);
+    });
+
+    it('should round half away from zero', () => {
+      expect(toKopecks(10.005)).toBe(1001n);
+      expect(toKopecks(0.145)).toBe(15n);
+      expect(toKopecks('2.004')).toBe(200n);
+      expect(toKopecks(-0.005)).toBe(-1n);
+      expect(toKopecks(33.333333)).toBe(3333n);
+    });
+
+    it('should handle exponent notation', () => {
+      expect(toKopecks(1e14)).toBe(10000000000000000n);
+      expect(toKopecks(1e-7)).toBe(0n);
+      expect(toKopecks('1e-2000000')).toBe(0n);
+      expect(toKopecks('1.5e2')).toBe(15000n);
+    });
+
+    it('should reject amounts with more than 15 integer digits', () => {
+      expect(toKopecks('999999999999999.99')).toBe(99999999999999999n);
+      expect(() => toKopecks(1e21)).toThrow(ValidationError);
+      expect(() => formatAmount(1e21)).toThrow('Слишком большое значение');
+      expect(() => toKopecks('1e2000000')).toThrow(ValidationError);
+      expect(() => toKopecks('1000000000000000')).toThrow(ValidationError);
+      expect(() => toKopecks(10n ** 17n)).toThrow(ValidationError);
+      expect(() => toKopecks(`0.${'1'.repeat(40)}`)).toThrow('Слишком много знаков');
+      expect(() => toKopecks('1'.repeat(1000000))).toThrow('Слишком длинная запись');
+    });
+
+    it('should reject non-numeric values', () => {
+      expect(() => toKopecks(NaN)).toThrow(ValidationError);
+      expect(() => toKopecks(Infinity)).toThrow(ValidationError);
+      expect(() => toKopecks('abc')).toThrow(ValidationError);
+      expect(() => toKopecks('')).toThrow(ValidationError);
+      expect(() => toKopecks(null as unknown as number)).toThrow(ValidationError);
+    });
+  });
+
+  describe('formatKopecks', () => {
+    it('should format without trailing zeros', () => {
+      expect(formatKopecks(100n)).toBe('1');
+      expect(formatKopecks(123450n)).toBe('1234.5');
+      expect(formatKopecks(123456n)).toBe('1234.56');
+      expect(formatKopecks(5n)).toBe('0.05');
+      expect(formatKopecks(-150n)).toBe('-1.5');
+    });
+  });
+
+  describe('multiplyKopecks', () => {
+    it('should multiply by integer quantity exactly', () => {
+      expect(multiplyKopecks(10n, 3)).toBe(30n);
+    });
+
+    it('should reject too large quantity', () => {
+      expect(() => multiplyKopecks(100n, '1e2000000')).toThrow(ValidationError);
+    });
+
+    it('should round fractional quantity', () => {
+      expect(multiplyKopecks(333n, 1.5)).toBe(500n);
+      expect(multiplyKopecks(10001n, 0.333)).toBe(3330n);
+    });
+  });
+
+  describe('formatAmount', () => {
+    it('should avoid float artifacts', () => {
+      expect(formatAmount(0.1 + 0.2)).toBe('0.3');
+      expect(formatAmount(33.333333)).toBe('33.33');
+    });
+  });
+});
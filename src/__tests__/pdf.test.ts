@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import { PdfPage } from '../pdf.js';
+
+/**
+ * Проверяет, что таблица xref указывает на начала объектов
+ */
+function expectValidXref(pdf: string): void {
+  const startxref = Number(/startxref\n(\d+)\n%%EOF\n$/.exec(pdf)?.[1]);
+  expect(pdf.slice(startxref, startxref + 4)).toBe('xref');
+
+  const offsets = [...pdf.slice(startxref).matchAll(/(\d{10}) 00000 n /g)].map((match) => Number(match[1]));
+  expect(offsets.length).toBeGreaterThan(0);
+  offsets.forEach((offset, i) => {
+    expect(pdf.slice(offset).startsWith(`${i + 1} 0 obj`)).toBe(true);
+  });
+}
+
+/**
+ * Символы WinAnsiEncoding за пределами ASCII, которые использует страница
+ */
+const WIN_ANSI: Record<number, string> = { 0x96: '–', 0x97: '—', 0xab: '«', 0xbb: '»' };
+
+/**
+ * Декодирует строки операторов Tj по кодировке шрифта из самого документа
+ * (/Differences с именами глифов поверх WinAnsiEncoding)
+ */
+function decodeText(pdf: string): string[] {
+  const glyphs = new Map<number, string>();
+  let code = 0;
+  for (const token of /\/Differences \[([^\]]*)\]/.exec(pdf)![1].trim().split(/\s+/)) {
+    if (token.startsWith('/')) {
+      glyphs.set(code++, token.slice(1));
+    } else {
+      code = Number(token);
+    }
+  }
+
+  const decodeByte = (byte: number): string => {
+    const glyph = glyphs.get(byte);
+    if (glyph === 'multiply') {
+      return '×';
+    }
+    if (glyph) {
+      expect(glyph).toMatch(/^uni[0-9A-F]{4}$/);
+      return String.fromCharCode(parseInt(glyph.slice(3), 16));
+    }
+    return byte < 0x80 ? String.fromCharCode(byte) : WIN_ANSI[byte];
+  };
+
+  return [...pdf.matchAll(/<([0-9a-f]+)> Tj/g)].map(([, hex]) =>
+    hex.match(/../g)!.map((pair) => decodeByte(parseInt(pair, 16))).join('')
+  );
+}
+
+describe('pdf', () => {
+  it('should build a valid single page document', () => {
+    const pdf = new PdfPage(300, 200)
+      .text('Hello', 20, 170, { size: 12 })
+      .rect(10, 10, 5, 5)
+      .toBuffer()
+      .toString('latin1');
+
+    expect(pdf.startsWith('%PDF-1.4\n')).toBe(true);
+    expect(pdf).toContain('/MediaBox [0 0 300 200]');
+    expect(pdf).toContain('BT /F1 12 Tf 1 0 0 1 20 170 Tm <48656c6c6f> Tj ET');
+    expect(pdf).toContain('10 10 5 5 re f');
+    expectValidXref(pdf);
+
+    const stream = /\/Length (\d+) >>\nstream\n/.exec(pdf)!;
+    const end = stream.index + stream[0].length + Number(stream[1]);
+    expect(pdf.slice(end, end + 10)).toBe('\nendstream');
+  });
+
+  it('should encode Cyrillic text in Windows-1251', () => {
+    const pdf = new PdfPage(100, 100)
+      .text('Чек №1 Ёё ₽', 0, 0, { size: 9, bold: true })
+      .toBuffer()
+      .toString('latin1');
+
+    expect(pdf).toContain('/F2 9 Tf');
+    expect(pdf).toContain('<d7e5ea20b93120a8b82088>');
+    expect(pdf).toContain('/uni0410');
+  });
+
+  it('should decode content stream back to original text', () => {
+    const lines = [
+      'АБВГДЕЁЖЗИЙКЛМНОПРСТУФХЦЧШЩЪЫЬЭЮЯ',
+      'абвгдеёжзийклмнопрстуфхцчшщъыьэюя',
+      'Чек №2026u7ia1u — «Услуга» 2 × 1 500,50 ₽ – итого',
+    ];
+    const page = new PdfPage(300, 100);
+    lines.forEach((line, i) => page.text(line, 10, 80 - i * 20, { size: 9, bold: i === 2 }));
+
+    expect(decodeText(page.toBuffer().toString('latin1'))).toEqual(lines);
+  });
+
+  it('should replace unsupported characters', () => {
+    const pdf = new PdfPage(100, 100).text('a€😀', 0, 0, { size: 9 }).toBuffer().toString('latin1');
+    expect(pdf).toContain('<613f3f>');
+  });
+
+  it('should rotate text', () => {
+    const pdf = new PdfPage(100, 100).text('A', 10, 20, { size: 9, angle: 90 }).toBuffer().toString('latin1');
+    expect(pdf).toContain('0 1 -1 0 10 20 Tm');
+  });
+
+  it('should register opacity once', () => {
+    const pdf = new PdfPage(100, 100)
+      .save().setOpacity(0.25).restore()
+      .save().setOpacity(0.25).restore()
+      .toBuffer()
+      .toString('latin1');
+
+    expect(pdf.match(/\/GS1 gs/g)).toHaveLength(2);
+    expect(pdf).toContain('/GS1 << /Type /ExtGState /ca 0.25 >>');
+    expect(pdf).not.toContain('/GS2');
+  });
+
+  it('should write title as UTF-16', () => {
+    const pdf = new PdfPage(100, 100).toBuffer('Чек').toString('latin1');
+    expect(pdf).toContain('/Title <feff04270435043a>');
+    expectValidXref(pdf);
+  });
+});
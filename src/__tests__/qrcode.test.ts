@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { encodeQrCode, reedSolomonRemainder } from '../qrcode.js';
+import { ValidationError } from '../errors.js';
+
+const URL = 'https://lknpd.nalog.ru/api/v1/receipt/500100732259/2026u7ia1u/print';
+
+/**
+ * Читает обе копии информации о формате (без маски 0x5412)
+ */
+function readFormatBits(matrix: boolean[][]): [number, number] {
+  const size = matrix.length;
+  const bit = (x: number, y: number) => (matrix[y][x] ? 1 : 0);
+  const first = [
+    ...[0, 1, 2, 3, 4, 5, 7, 8].map((y) => bit(8, y)),
+    bit(7, 8),
+    ...[5, 4, 3, 2, 1, 0].map((x) => bit(x, 8)),
+  ];
+  const second = [
+    ...Array.from({ length: 8 }, (_, i) => bit(size - 1 - i, 8)),
+    ...Array.from({ length: 7 }, (_, i) => bit(8, size - 7 + i)),
+  ];
+  const toNumber = (bits: number[]) => bits.reduce((acc, value, i) => acc | (value << i), 0) ^ 0x5412;
+  return [toNumber(first), toNumber(second)];
+}
+
+describe('qrcode', () => {
+  describe('reedSolomonRemainder', () => {
+    it('should compute error correction codewords', () => {
+      // HELLO WORLD, версия 1-M
+      const data = [32, 91, 11, 120, 209, 114, 220, 77, 67, 64, 236, 17, 236, 17, 236, 17];
+      expect(reedSolomonRemainder(data, 10)).toEqual([196, 35, 39, 119, 235, 215, 231, 226, 93, 23]);
+    });
+  });
+
+  describe('encodeQrCode', () => {
+    it('should pick the smallest version', () => {
+      expect(encodeQrCode('1')).toHaveLength(21);
+      expect(encodeQrCode(URL)).toHaveLength(37);
+      expect(encodeQrCode('x'.repeat(300))).toHaveLength(69);
+    });
+
+    it('should count UTF-8 bytes', () => {
+      // 11 символов = 20 байт, не помещается в версию 1-M (14 байт)
+      expect(encodeQrCode('Привет, мир')).toHaveLength(25);
+    });
+
+    it('should draw finder and timing patterns', () => {
+      const matrix = encodeQrCode(URL);
+      const size = matrix.length;
+
+      for (const [left, top] of [[0, 0], [size - 7, 0], [0, size - 7]]) {
+        for (let dy = 0; dy < 7; dy++) {
+          for (let dx = 0; dx < 7; dx++) {
+            const ring = Math.max(Math.abs(dx - 3), Math.abs(dy - 3));
+            expect(matrix[top + dy][left + dx]).toBe(ring !== 2);
+          }
+        }
+      }
+      for (let i = 8; i < size - 8; i++) {
+        expect(matrix[6][i]).toBe(i % 2 === 0);
+        expect(matrix[i][6]).toBe(i % 2 === 0);
+      }
+    });
+
+    it('should write format information for level M', () => {
+      const [first, second] = readFormatBits(encodeQrCode(URL));
+
+      expect(first).toBe(second);
+      expect(first >> 13).toBe(0b00);
+
+      let remainder = first >> 10;
+      for (let i = 0; i < 10; i++) {
+        remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+      }
+      expect(first & 0x3ff).toBe(remainder);
+    });
+
+    it('should write version information for version 7 and above', () => {
+      const matrix = encodeQrCode('x'.repeat(300));
+      const size = matrix.length;
+      let bits = 0;
+      for (let i = 0; i < 18; i++) {
+        const dark = matrix[Math.floor(i / 3)][size - 11 + (i % 3)];
+        expect(matrix[size - 11 + (i % 3)][Math.floor(i / 3)]).toBe(dark);
+        bits |= (dark ? 1 : 0) << i;
+      }
+      expect(bits >> 12).toBe(13);
+    });
+
+    it('should be deterministic', () => {
+      expect(encodeQrCode(URL)).toEqual(encodeQrCode(URL));
+    });
+
+    it('should reject too long data', () => {
+      expect(() => encodeQrCode('x'.repeat(3000))).toThrow(ValidationError);
+    });
+  });
+});
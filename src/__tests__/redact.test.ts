@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import {
+  REDACTED,
+  maskPhone,
+  redactString,
+  redactRequestBody,
+  redactResponseBody,
+  redactHeaders,
+  redactError,
+} from '../redact.js';
+
+describe('redact', () => {
+  it('should mask passwords, tokens and SMS codes in request body', () => {
+    const body = {
+      inn: '123456789012',
+      password: 'secret',
+      refreshToken: 'refresh',
+      challengeToken: 'challenge',
+      code: '123456',
+      deviceInfo: { sourceDeviceId: 'device' },
+    };
+
+    expect(redactRequestBody(body)).toEqual({
+      inn: '123456789012',
+      password: REDACTED,
+      refreshToken: REDACTED,
+      challengeToken: REDACTED,
+      code: REDACTED,
+      deviceInfo: { sourceDeviceId: 'device' },
+    });
+    expect(body.password).toBe('secret');
+  });
+
+  it('should keep error code in response body', () => {
+    expect(redactResponseBody({ code: 'validation.failed', token: 'access' })).toEqual({
+      code: 'validation.failed',
+      token: REDACTED,
+    });
+  });
+
+  it('should mask phone numbers in values and nested arrays', () => {
+    expect(redactRequestBody({ phone: '79991234567' })).toEqual({ phone: '+7********67' });
+    expect(redactResponseBody([{ contactPhone: '+7 (999) 123-45-67' }])).toEqual([
+      { contactPhone: '+7********67' },
+    ]);
+    expect(redactString('Телефон 89991234567 не найден')).toBe('Телефон +7********67 не найден');
+  });
+
+  it('should not mask INN and other long numbers', () => {
+    expect(redactString('770123456789')).toBe('770123456789');
+    expect(redactString('1027700132195')).toBe('1027700132195');
+  });
+
+  it('should mask bearer tokens in strings and headers', () => {
+    expect(redactString('Authorization: Bearer abc.def.ghi')).toBe(`Authorization: Bearer ${REDACTED}`);
+    expect(redactHeaders({ Authorization: 'Bearer abc', Accept: '*/*' })).toEqual({
+      Authorization: `Bearer ${REDACTED}`,
+      Accept: '*/*',
+    });
+  });
+
+  it('should leave non-plain objects untouched', () => {
+    const date = new Date();
+    expect(redactResponseBody({ at: date, amount: 100, empty: null })).toEqual({ at: date, amount: 100, empty: null });
+  });
+
+  it('should copy errors with redacted message', () => {
+    const error = new TypeError('Failed for Bearer secret-token');
+    const redacted = redactError(error) as Error;
+
+    expect(redacted).toBeInstanceOf(Error);
+    expect(redacted.name).toBe('TypeError');
+    expect(redacted.message).toBe(`Failed for Bearer ${REDACTED}`);
+    expect(error.message).toContain('secret-token');
+  });
+
+  it('should mask short phones completely', () => {
+    expect(maskPhone('12')).toBe(REDACTED);
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import { renderReceiptHtml, renderReceiptPdf } from '../renderer.js';
+import { ReceiptJson } from '../types.js';
+
+function createReceipt(overrides: Partial<ReceiptJson> = {}): ReceiptJson {
+  return {
+    receiptId: '2026u7ia1u',
+    services: [
+      { name: 'Разработка сайта', quantity: 1, amount: 150000, serviceNumber: 0 },
+      { name: 'Консультация', quantity: 2, amount: 1500.5, serviceNumber: 1 },
+    ],
+    operationTime: '2026-01-15T12:00:00+03:00',
+    requestTime: '2026-01-15T12:00:01+03:00',
+    registerTime: '2026-01-15T12:00:02+03:00',
+    taxPeriodId: 202601,
+    paymentType: 'CASH',
+    incomeType: 'FROM_LEGAL_ENTITY',
+    totalAmount: 153001,
+    cancellationInfo: null,
+    sourceDeviceId: 'device',
+    clientInn: '7707083893',
+    clientDisplayName: 'ООО «Ромашка»',
+    partnerDisplayName: null,
+    partnerInn: null,
+    inn: '500100732259',
+    profession: '',
+    description: [],
+    email: null,
+    phone: null,
+    invoiceId: null,
+    ...overrides,
+  };
+}
+
+const cancellationInfo = {
+  operationTime: '2026-01-16T10:30:00Z',
+  registerTime: '2026-01-16T10:30:01Z',
+  taxPeriodId: 202601,
+  comment: 'Чек сформирован ошибочно',
+};
+
+describe('renderer', () => {
+  describe('renderReceiptHtml', () => {
+    it('should render receipt details', () => {
+      const html = renderReceiptHtml(createReceipt());
+
+      expect(html.startsWith('<!DOCTYPE html>')).toBe(true);
+      expect(html).toContain('<h1>Чек №2026u7ia1u</h1>');
+      expect(html).toContain('15.01.2026 12:00 (+03:00)');
+      expect(html).toContain('1. Разработка сайта');
+      expect(html).toContain('150 000,00 ₽');
+      expect(html).toContain('2 × 1 500,50 ₽');
+      expect(html).toContain('3 001,00 ₽');
+      expect(html).toContain('153 001,00 ₽');
+      expect(html).toContain('500100732259');
+      expect(html).toContain('7707083893');
+      expect(html).toContain('<svg');
+      expect(html).not.toContain('АННУЛИРОВАН');
+    });
+
+    it('should escape HTML in receipt fields', () => {
+      const html = renderReceiptHtml(createReceipt({ clientDisplayName: '<script>alert("x")</script>' }));
+
+      expect(html).not.toContain('<script>');
+      expect(html).toContain('&lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt;');
+    });
+
+    it('should add watermark and cancellation info for cancelled receipt', () => {
+      const html = renderReceiptHtml(createReceipt({ cancellationInfo }));
+
+      expect(html).toContain('<div class="watermark">АННУЛИРОВАН</div>');
+      expect(html).toContain('16.01.2026 10:30 (+00:00)');
+      expect(html).toContain('Чек сформирован ошибочно');
+    });
+
+    it('should omit missing client fields', () => {
+      const html = renderReceiptHtml(createReceipt({ clientInn: null, clientDisplayName: null }));
+
+      expect(html).not.toContain('ИНН покупателя');
+      expect(html).not.toContain('Покупатель');
+    });
+
+    it('should encode custom verification URL in QR code', () => {
+      const receipt = createReceipt();
+      const qr = (html: string) => /<svg[\s\S]*<\/svg>/.exec(html)?.[0];
+
+      expect(qr(renderReceiptHtml(receipt, { verificationUrl: 'https://example.com/r/1' })))
+        .not.toBe(qr(renderReceiptHtml(receipt)));
+    });
+  });
+
+  describe('renderReceiptPdf', () => {
+    it('should render PDF document', () => {
+      const pdf = renderReceiptPdf(createReceipt()).toString('latin1');
+
+      expect(pdf.startsWith('%PDF-1.4\n')).toBe(true);
+      expect(pdf.endsWith('%%EOF\n')).toBe(true);
+      // "Чек №2026u7ia1u" в Windows-1251
+      expect(pdf).toContain('<d7e5ea20b932303236753769613175>');
+      expect(pdf).toContain('re f');
+      expect(pdf).not.toContain('/GS1 gs');
+    });
+
+    it('should add watermark for cancelled receipt', () => {
+      const pdf = renderReceiptPdf(createReceipt({ cancellationInfo })).toString('latin1');
+
+      // "АННУЛИРОВАН" в Windows-1251, повёрнутый на 45°
+      expect(pdf).toMatch(/\/GS1 gs\n0\.8 0 0 rg\nBT \/F2 36 Tf 0\.707 0\.707 -0\.707 0\.707 [\d.]+ [\d.]+ Tm <c0cdcdd3cbc8d0cec2c0cd> Tj ET/);
+    });
+
+    it('should wrap long service names', () => {
+      const name = 'Очень длинное наименование услуги, которое не помещается в одну строку чека';
+      const pdf = renderReceiptPdf(createReceipt({
+        services: [{ name, quantity: 1, amount: 100, serviceNumber: 0 }],
+        totalAmount: 100,
+      })).toString('latin1');
+
+      const lines = pdf.match(/BT \/F1 9 Tf/g) ?? [];
+      const single = renderReceiptPdf(createReceipt({
+        services: [{ name: 'Услуга', quantity: 1, amount: 100, serviceNumber: 0 }],
+        totalAmount: 100,
+      })).toString('latin1').match(/BT \/F1 9 Tf/g) ?? [];
+      expect(lines.length).toBe(single.length + 1);
+    });
+  });
+});
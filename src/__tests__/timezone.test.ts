@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest';
+import { getTimezoneFormatter, toWallTime } from '../timezone.js';
+
+describe('timezone', () => {
+  it('should convert to wall time with offset in effect', () => {
+    const time = Date.parse('2025-01-15T09:00:00.250Z');
+    expect(new Date(toWallTime(time, 'Europe/Moscow')).toISOString()).toBe('2025-01-15T12:00:00.250Z');
+    expect(toWallTime(time, 'UTC')).toBe(time);
+  });
+
+  it('should follow daylight saving time', () => {
+    const winter = Date.parse('2025-01-15T12:00:00Z');
+    const summer = Date.parse('2025-07-15T12:00:00Z');
+    expect(toWallTime(winter, 'Europe/Berlin') - winter).toBe(60 * 60 * 1000);
+    expect(toWallTime(summer, 'Europe/Berlin') - summer).toBe(2 * 60 * 60 * 1000);
+  });
+
+  it('should reuse formatter for the same timezone', () => {
+    expect(getTimezoneFormatter('Asia/Yekaterinburg')).toBe(getTimezoneFormatter('Asia/Yekaterinburg'));
+  });
+
+  it('should throw for unknown timezone', () => {
+    expect(() => getTimezoneFormatter('Mars/Olympus')).toThrow(RangeError);
+  });
+});
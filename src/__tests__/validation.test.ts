@@ -0,0 +1,236 @@
+import { describe, it, expect } from 'vitest';
+import {
+  validateCreateIncomeParams,
+  validateCreateMultipleIncomeParams,
+  validateIncomeClient,
+  validatePaymentDetails,
+  assertValid,
+} from '../validation.js';
+import { ReceiptValidationError, ValidationError } from '../errors.js';
+import { IncomeType, PaymentDetailsType, PaymentType } from '../types.js';
+
+const now = new Date('2025-03-15T12:00:00Z');
+
+describe('validateIncomeClient', () => {
+  it('should accept individual without INN', () => {
+    expect(validateIncomeClient({ incomeType: IncomeType.FROM_INDIVIDUAL })).toEqual([]);
+    expect(validateIncomeClient()).toEqual([]);
+  });
+
+  it('should accept legal entity with valid 10 and 12 digit INN', () => {
+    expect(validateIncomeClient({
+      incomeType: IncomeType.FROM_LEGAL_ENTITY,
+      displayName: 'ПАО Сбербанк',
+      inn: '7707083893',
+    })).toEqual([]);
+    expect(validateIncomeClient({
+      incomeType: IncomeType.FROM_LEGAL_ENTITY,
+      displayName: 'ИП Иванов',
+      inn: '500100732259',
+    })).toEqual([]);
+  });
+
+  it('should reject INN with wrong checksum', () => {
+    expect(validateIncomeClient({
+      incomeType: IncomeType.FROM_LEGAL_ENTITY,
+      displayName: 'ООО',
+      inn: '7707083894',
+    })).toEqual([{ field: 'client.inn', message: 'Некорректный ИНН: 7707083894' }]);
+  });
+
+  it('should require INN and name for legal entity', () => {
+    const issues = validateIncomeClient({ incomeType: IncomeType.FROM_LEGAL_ENTITY });
+    expect(issues.map((issue) => issue.field)).toEqual(['client.inn', 'client.displayName']);
+  });
+
+  it('should require name for foreign agency', () => {
+    const issues = validateIncomeClient({ incomeType: IncomeType.FROM_FOREIGN_AGENCY });
+    expect(issues.map((issue) => issue.field)).toEqual(['client.displayName']);
+  });
+
+  it('should reject organization INN for individual', () => {
+    const issues = validateIncomeClient({ incomeType: IncomeType.FROM_INDIVIDUAL, inn: '7707083893' });
+    expect(issues).toEqual([{ field: 'client.inn', message: 'ИНН физического лица должен состоять из 12 цифр' }]);
+  });
+
+  it('should reject unknown income type', () => {
+    const issues = validateIncomeClient({ incomeType: 'UNKNOWN' as IncomeType });
+    expect(issues[0].field).toBe('client.incomeType');
+  });
+});
+
+describe('validateCreateIncomeParams', () => {
+  it('should accept valid params', () => {
+    expect(validateCreateIncomeParams({
+      name: 'Услуга',
+      amount: 1000,
+      operationTime: new Date('2025-03-01T10:00:00Z'),
+      paymentType: PaymentType.ACCOUNT,
+    }, now)).toEqual([]);
+  });
+
+  it('should list every problem', () => {
+    const issues = validateCreateIncomeParams({
+      name: '  ',
+      amount: NaN,
+      quantity: 0,
+      operationTime: new Date('2025-03-16T12:00:00Z'),
+      client: { incomeType: IncomeType.FROM_LEGAL_ENTITY },
+    }, now);
+
+    expect(issues.map((issue) => issue.field)).toEqual([
+      'name',
+      'amount',
+      'quantity',
+      'operationTime',
+      'client.inn',
+      'client.displayName',
+    ]);
+  });
+
+  it('should reject negative amount and too long name', () => {
+    const issues = validateCreateIncomeParams({ name: 'x'.repeat(257), amount: -1 }, now);
+    expect(issues.map((issue) => issue.field)).toEqual(['name', 'amount']);
+  });
+
+  it('should reject line total that rounds to zero', () => {
+    expect(validateCreateIncomeParams({ name: 'Услуга', amount: 100, quantity: 1e-9 }, now)).toEqual([{
+      field: 'quantity',
+      message: 'Стоимость позиции (цена × количество) округляется до нуля',
+    }]);
+  });
+
+  it('should reject line total above maximum amount', () => {
+    const issues = validateCreateIncomeParams({ name: 'Услуга', amount: 1e14, quantity: 100 }, now);
+    expect(issues.map((issue) => issue.field)).toEqual(['amount']);
+    expect(issues[0].message).toContain('999999999999999.99');
+    expect(validateCreateIncomeParams({ name: 'Услуга', amount: 1e21 }, now)[0].field).toBe('amount');
+  });
+
+  it('should reject operation time before previous month', () => {
+    expect(validateCreateIncomeParams({
+      name: 'Услуга',
+      amount: 100,
+      operationTime: new Date('2025-02-01T12:00:00Z'),
+    }, now)).toEqual([]);
+
+    expect(validateCreateIncomeParams({
+      name: 'Услуга',
+      amount: 100,
+      operationTime: new Date('2025-01-20T12:00:00Z'),
+    }, now)).toEqual([{
+      field: 'operationTime',
+      message: 'Дата операции не может быть раньше начала предыдущего месяца',
+    }]);
+  });
+
+  it('should compute previous month boundary in given timezone', () => {
+    // В Москве уже 1 апреля, в UTC ещё 31 марта
+    const moscowNow = new Date('2025-03-31T22:00:00Z');
+    const params = { name: 'Услуга', amount: 100, operationTime: new Date('2025-02-28T22:00:00Z') };
+
+    expect(validateCreateIncomeParams(params, moscowNow, 'Europe/Moscow')).toEqual([]);
+    expect(validateCreateIncomeParams({
+      ...params,
+      operationTime: new Date('2025-02-28T20:59:59Z'),
+    }, moscowNow, 'Europe/Moscow')).toEqual([{
+      field: 'operationTime',
+      message: 'Дата операции не может быть раньше начала предыдущего месяца',
+    }]);
+  });
+
+  it('should reject invalid date', () => {
+    const issues = validateCreateIncomeParams({ name: 'Услуга', amount: 100, operationTime: new Date('invalid') }, now);
+    expect(issues).toEqual([{ field: 'operationTime', message: 'Некорректная дата операции' }]);
+  });
+});
+
+describe('validateCreateMultipleIncomeParams', () => {
+  it('should reject receipt total above maximum amount', () => {
+    const services = [{ name: 'Первая', amount: 9e14 }, { name: 'Вторая', amount: 9e14 }];
+    expect(validateCreateMultipleIncomeParams({ services }, now).map((issue) => issue.field)).toEqual(['services']);
+  });
+
+  it('should reject empty services', () => {
+    expect(validateCreateMultipleIncomeParams({ services: [] }, now)).toEqual([
+      { field: 'services', message: 'Чек должен содержать хотя бы одну позицию' },
+    ]);
+  });
+
+  it('should report problems with service index', () => {
+    const issues = validateCreateMultipleIncomeParams({
+      services: [
+        { name: 'Первая', amount: 100 },
+        { name: '', amount: 0, quantity: -1 },
+      ],
+    }, now);
+
+    expect(issues.map((issue) => issue.field)).toEqual([
+      'services[1].name',
+      'services[1].amount',
+      'services[1].quantity',
+    ]);
+  });
+});
+
+describe('validatePaymentDetails', () => {
+  it('should accept valid bank account', () => {
+    expect(validatePaymentDetails({
+      type: PaymentDetailsType.ACCOUNT,
+      bankName: 'ПАО Сбербанк',
+      bankBik: '044525225',
+      corrAccount: '30101810400000000225',
+      currentAccount: '40702810938000000001',
+    })).toEqual([]);
+  });
+
+  it('should report account problems', () => {
+    const issues = validatePaymentDetails({
+      type: PaymentDetailsType.ACCOUNT,
+      bankName: '',
+      bankBik: '044525225',
+      corrAccount: '30101810400000000226',
+      currentAccount: '40702810938000000002',
+    });
+
+    expect(issues.map((issue) => issue.field)).toEqual(['bankName', 'currentAccount', 'corrAccount']);
+  });
+
+  it('should require valid BIK', () => {
+    const issues = validatePaymentDetails({ type: PaymentDetailsType.ACCOUNT, bankName: 'Банк', bankBik: '123' });
+    expect(issues).toEqual([{ field: 'bankBik', message: 'Некорректный БИК: 123' }]);
+  });
+
+  it('should require phone for SBP', () => {
+    expect(validatePaymentDetails({ type: PaymentDetailsType.PHONE, bankName: 'Т-Банк', phone: '+79991234567' })).toEqual([]);
+    expect(validatePaymentDetails({ type: PaymentDetailsType.PHONE, bankName: 'Т-Банк' })[0].field).toBe('phone');
+  });
+});
+
+describe('assertValid', () => {
+  it('should throw ReceiptValidationError with all issues', () => {
+    const issues = [
+      { field: 'name', message: 'Наименование не может быть пустым' },
+      { field: 'amount', message: 'Сумма должна быть положительным числом' },
+    ];
+
+    const error = (() => {
+      try {
+        assertValid(issues);
+      } catch (e) {
+        return e as ReceiptValidationError;
+      }
+    })();
+
+    expect(error).toBeInstanceOf(ReceiptValidationError);
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error?.code).toBe('RECEIPT_VALIDATION_FAILED');
+    expect(error?.issues).toEqual(issues);
+    expect(error?.message).toContain('- amount: Сумма должна быть положительным числом');
+    expect(error?.toJSON().issues).toEqual(issues);
+  });
+
+  it('should not throw without issues', () => {
+    expect(() => assertValid([])).not.toThrow();
+  });
+});
@@ -24,9 +24,13 @@ async function main() {
     process.exit(1);
   }
 
+  // Ключ шифрования файла с токенами (рекомендуется)
+  const encryptionKey = process.env.LKNPD_TOKEN_KEY;
+
   const api = new NalogApi({
     saveToken: true,
     saveTokenPath: 'session-token.json',
+    saveTokenEncryptionKey: encryptionKey || undefined,
   });
 
   console.log('\nОтправка SMS-кода...');
@@ -57,7 +61,12 @@ async function main() {
     if (result.profile?.displayName) {
       console.log(`  Имя: ${result.profile.displayName}`);
     }
-    console.log(`  Токен сохранён в: session-token.json\n`);
+    console.log(`  Токен сохранён в: session-token.json`);
+    if (encryptionKey) {
+      console.log('  Файл зашифрован ключом из LKNPD_TOKEN_KEY\n');
+    } else {
+      console.log('  Внимание: файл не зашифрован. Задайте LKNPD_TOKEN_KEY для шифрования\n');
+    }
   } catch (error) {
     console.error('Ошибка авторизации:', error instanceof Error ? error.message : error);
     process.exit(1);
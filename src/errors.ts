@@ -0,0 +1,268 @@
+import { redactError, redactResponseBody, redactString } from './redact.js';
+
+/**
+ * Подробности запроса, завершившегося ошибкой
+ */
+export interface NalogApiErrorDetails {
+  /** HTTP-статус ответа */
+  status?: number;
+  /** ID запроса из заголовков ответа */
+  requestId?: string;
+  /** Метод API (например, "income") */
+  endpoint?: string;
+  /** Исходная ошибка */
+  cause?: unknown;
+  /** Через сколько мс можно повторить запрос (из заголовка Retry-After) */
+  retryAfter?: number;
+}
+
+/**
+ * Ошибка API налоговой
+ */
+export class NalogApiError extends Error {
+  /** HTTP-статус ответа */
+  public status?: number;
+  /** ID запроса из заголовков ответа */
+  public requestId?: string;
+  /** Метод API (например, "income") */
+  public endpoint?: string;
+  /** Исходная ошибка */
+  public cause?: unknown;
+
+  /** Тело ответа (токены и телефоны скрыты) */
+  public response?: unknown;
+
+  constructor(
+    message: string,
+    public code?: string,
+    response?: unknown,
+    details: NalogApiErrorDetails = {}
+  ) {
+    super(message);
+    this.name = 'NalogApiError';
+    this.response = redactResponseBody(response);
+    this.status = details.status;
+    this.requestId = details.requestId;
+    this.endpoint = details.endpoint;
+    this.cause = details.cause;
+  }
+
+  /**
+   * Представление ошибки для логов и сериализации (секреты скрыты)
+   */
+  toJSON(): Record<string, unknown> {
+    return {
+      name: this.name,
+      message: redactString(this.message),
+      code: this.code,
+      status: this.status,
+      requestId: this.requestId,
+      endpoint: this.endpoint,
+      response: redactResponseBody(this.response),
+      cause: this.cause === undefined ? undefined : serializeCause(redactError(this.cause)),
+    };
+  }
+}
+
+/**
+ * Приводит исходную ошибку к виду, пригодному для JSON
+ */
+function serializeCause(cause: unknown): unknown {
+  return cause instanceof Error ? { name: cause.name, message: cause.message } : cause;
+}
+
+/**
+ * Ошибка авторизации: неверные учётные данные, истёкший или отозванный токен
+ */
+export class AuthenticationError extends NalogApiError {
+  constructor(message: string, code?: string, response?: unknown, details?: NalogApiErrorDetails) {
+    super(message, code, response, details);
+    this.name = 'AuthenticationError';
+  }
+}
+
+/**
+ * Ошибка в параметрах запроса
+ */
+export class ValidationError extends NalogApiError {
+  constructor(message: string, code?: string, response?: unknown, details?: NalogApiErrorDetails) {
+    super(message, code, response, details);
+    this.name = 'ValidationError';
+  }
+}
+
+/**
+ * Проблема в параметрах, найденная при локальной проверке
+ */
+export interface ValidationIssue {
+  /** Путь к полю (например, "services[1].amount") */
+  field: string;
+  /** Описание проблемы */
+  message: string;
+}
+
+/**
+ * Параметры не прошли локальную проверку (запрос не отправлялся)
+ */
+export class LocalValidationError extends ValidationError {
+  /** Все найденные проблемы */
+  public issues: ValidationIssue[];
+
+  constructor(title: string, issues: ValidationIssue[], code: string) {
+    super(`${title}:\n${issues.map((issue) => `- ${issue.field}: ${issue.message}`).join('\n')}`, code);
+    this.name = 'LocalValidationError';
+    this.issues = issues;
+  }
+
+  toJSON(): Record<string, unknown> {
+    return { ...super.toJSON(), issues: this.issues };
+  }
+}
+
+/**
+ * Параметры чека или счёта не прошли локальную проверку
+ */
+export class ReceiptValidationError extends LocalValidationError {
+  constructor(issues: ValidationIssue[]) {
+    super('Некорректные параметры чека', issues, 'RECEIPT_VALIDATION_FAILED');
+    this.name = 'ReceiptValidationError';
+  }
+}
+
+/**
+ * Платёжные реквизиты не прошли локальную проверку
+ */
+export class PaymentDetailsValidationError extends LocalValidationError {
+  constructor(issues: ValidationIssue[]) {
+    super('Некорректные платёжные реквизиты', issues, 'PAYMENT_DETAILS_VALIDATION_FAILED');
+    this.name = 'PaymentDetailsValidationError';
+  }
+}
+
+/**
+ * Превышен лимит запросов
+ */
+export class RateLimitError extends NalogApiError {
+  /** Через сколько мс можно повторить запрос (из заголовка Retry-After) */
+  public retryAfter?: number;
+
+  constructor(message: string, code?: string, response?: unknown, details?: NalogApiErrorDetails) {
+    super(message, code, response, details);
+    this.name = 'RateLimitError';
+    this.retryAfter = details?.retryAfter;
+  }
+}
+
+/**
+ * Превышен лимит дохода для самозанятых
+ */
+export class IncomeLimitExceededError extends NalogApiError {
+  constructor(message: string, code?: string, response?: unknown, details?: NalogApiErrorDetails) {
+    super(message, code, response, details);
+    this.name = 'IncomeLimitExceededError';
+  }
+}
+
+/**
+ * Чек уже аннулирован
+ */
+export class ReceiptAlreadyCancelledError extends NalogApiError {
+  constructor(message: string, code?: string, response?: unknown, details?: NalogApiErrorDetails) {
+    super(message, code, response, details);
+    this.name = 'ReceiptAlreadyCancelledError';
+  }
+}
+
+/**
+ * Ошибка на стороне сервера (HTTP 5xx)
+ */
+export class ServerError extends NalogApiError {
+  constructor(message: string, code?: string, response?: unknown, details?: NalogApiErrorDetails) {
+    super(message, code, response, details);
+    this.name = 'ServerError';
+  }
+}
+
+/**
+ * Сетевая ошибка: сервер недоступен, соединение сброшено и т.п.
+ */
+export class NetworkError extends NalogApiError {
+  constructor(message: string, details?: NalogApiErrorDetails) {
+    super(message, 'NETWORK_ERROR', undefined, details);
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * Превышено время ожидания ответа
+ */
+export class TimeoutError extends NetworkError {
+  constructor(message: string, details?: NalogApiErrorDetails) {
+    super(message, details);
+    this.code = 'TIMEOUT';
+    this.name = 'TimeoutError';
+  }
+}
+
+type ApiErrorClass = new (
+  message: string,
+  code?: string,
+  response?: unknown,
+  details?: NalogApiErrorDetails
+) => NalogApiError;
+
+/**
+ * Известные коды ошибок lknpd (сравниваются без учёта регистра, "_" равно ".")
+ */
+const ERROR_CODES: Record<string, ApiErrorClass> = {
+  'authentication.failed': AuthenticationError,
+  'authorization.failed': AuthenticationError,
+  'token.expired': AuthenticationError,
+  'refresh.token.expired': AuthenticationError,
+  'refresh.token.not.found': AuthenticationError,
+  'taxpayer.unauthorized': AuthenticationError,
+  'validation.failed': ValidationError,
+  'request.validation.error': ValidationError,
+  'too.many.requests': RateLimitError,
+  'sms.limit.exceeded': RateLimitError,
+  'income.limit.exceeded': IncomeLimitExceededError,
+  'max.total.income.exceeded': IncomeLimitExceededError,
+  'receipt.already.cancelled': ReceiptAlreadyCancelledError,
+  'receipt.already.canceled': ReceiptAlreadyCancelledError,
+  'receipt.cancelled': ReceiptAlreadyCancelledError,
+};
+
+/**
+ * Создаёт ошибку нужного типа по коду ошибки lknpd и HTTP-статусу
+ *
+ * Сначала учитывается код из тела ответа, затем HTTP-статус.
+ */
+export function createApiError(
+  message: string,
+  code: string | undefined,
+  response: unknown,
+  details: NalogApiErrorDetails
+): NalogApiError {
+  const normalizedCode = code?.toLowerCase().replace(/_/g, '.');
+  const ErrorClass = (normalizedCode && ERROR_CODES[normalizedCode]) || getErrorClassByStatus(details.status);
+  return new ErrorClass(message, code, response, details);
+}
+
+/**
+ * Определяет тип ошибки по HTTP-статусу
+ */
+function getErrorClassByStatus(status?: number): ApiErrorClass {
+  if (status === 401 || status === 403) {
+    return AuthenticationError;
+  }
+  if (status === 400 || status === 422) {
+    return ValidationError;
+  }
+  if (status === 429) {
+    return RateLimitError;
+  }
+  if (status !== undefined && status >= 500) {
+    return ServerError;
+  }
+  return NalogApiError;
+}
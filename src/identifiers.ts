@@ -0,0 +1,182 @@
+import { ValidationError } from './errors.js';
+
+/**
+ * Весовые коэффициенты контрольных цифр ИНН
+ */
+const INN_WEIGHTS_10 = [2, 4, 10, 3, 5, 9, 4, 6, 8];
+const INN_WEIGHTS_11 = [7, 2, 4, 10, 3, 5, 9, 4, 6, 8];
+const INN_WEIGHTS_12 = [3, 7, 2, 4, 10, 3, 5, 9, 4, 6, 8];
+
+/**
+ * Вычисляет контрольную цифру ИНН
+ */
+function innChecksum(digits: number[], weights: number[]): number {
+  const sum = weights.reduce((acc, weight, i) => acc + weight * digits[i], 0);
+  return (sum % 11) % 10;
+}
+
+/**
+ * Проверяет ИНН организации (10 цифр) по контрольной цифре
+ */
+export function isValidLegalInn(inn: string): boolean {
+  if (!/^\d{10}$/.test(inn)) {
+    return false;
+  }
+  const digits = [...inn].map(Number);
+  return innChecksum(digits, INN_WEIGHTS_10) === digits[9];
+}
+
+/**
+ * Проверяет ИНН физического лица или ИП (12 цифр) по контрольным цифрам
+ */
+export function isValidIndividualInn(inn: string): boolean {
+  if (!/^\d{12}$/.test(inn)) {
+    return false;
+  }
+  const digits = [...inn].map(Number);
+  return innChecksum(digits, INN_WEIGHTS_11) === digits[10]
+    && innChecksum(digits, INN_WEIGHTS_12) === digits[11];
+}
+
+/**
+ * Проверяет ИНН организации или физического лица
+ *
+ * @example
+ * ```typescript
+ * isValidInn('7707083893');   // true
+ * isValidInn('500100732259'); // true
+ * isValidInn('1234567890');   // false
+ * ```
+ */
+export function isValidInn(inn: string): boolean {
+  return isValidLegalInn(inn) || isValidIndividualInn(inn);
+}
+
+/**
+ * Проверяет формат КПП: 4 цифры (код налоговой), 2 цифры или заглавные
+ * латинские буквы (причина постановки на учёт) и 3 цифры
+ */
+export function isValidKpp(kpp: string): boolean {
+  return /^\d{4}[\dA-Z]{2}\d{3}$/.test(kpp);
+}
+
+/**
+ * Вычисляет контрольную цифру ОГРН/ОГРНИП: остаток от деления
+ * числа без последней цифры на modulus, последняя цифра остатка
+ */
+function ogrnChecksum(value: string, modulus: bigint): number {
+  return Number((BigInt(value.slice(0, -1)) % modulus) % 10n);
+}
+
+/**
+ * Проверяет ОГРН организации (13 цифр) по контрольной цифре
+ */
+export function isValidOgrn(ogrn: string): boolean {
+  return /^\d{13}$/.test(ogrn) && ogrnChecksum(ogrn, 11n) === Number(ogrn[12]);
+}
+
+/**
+ * Проверяет ОГРНИП индивидуального предпринимателя (15 цифр) по контрольной цифре
+ */
+export function isValidOgrnip(ogrnip: string): boolean {
+  return /^\d{15}$/.test(ogrnip) && ogrnChecksum(ogrnip, 13n) === Number(ogrnip[14]);
+}
+
+/**
+ * Проверяет формат БИК российского банка: 9 цифр, начинается с «04»
+ */
+export function isValidBik(bik: string): boolean {
+  return /^04\d{7}$/.test(bik);
+}
+
+/**
+ * Весовые коэффициенты контрольного ключа банковских счетов (повторяются циклически)
+ */
+const ACCOUNT_WEIGHTS = [7, 1, 3];
+
+/**
+ * Проверяет контрольный ключ 23-значной строки: 3 цифры БИК + 20 цифр счёта
+ */
+function accountChecksumValid(value: string): boolean {
+  const sum = [...value].reduce((acc, digit, i) => acc + Number(digit) * ACCOUNT_WEIGHTS[i % 3], 0);
+  return sum % 10 === 0;
+}
+
+/**
+ * Проверяет расчётный счёт (20 цифр) по контрольному ключу с учётом БИК банка
+ *
+ * @example
+ * ```typescript
+ * isValidBankAccount('40702810938000000001', '044525225'); // true
+ * ```
+ */
+export function isValidBankAccount(account: string, bik: string): boolean {
+  return /^\d{20}$/.test(account) && isValidBik(bik) && accountChecksumValid(bik.slice(-3) + account);
+}
+
+/**
+ * Проверяет корреспондентский счёт (20 цифр, начинается с «301») с учётом БИК банка
+ */
+export function isValidCorrAccount(account: string, bik: string): boolean {
+  return /^301\d{17}$/.test(account)
+    && isValidBik(bik)
+    && accountChecksumValid(`0${bik.slice(4, 6)}${account}`);
+}
+
+/**
+ * Приводит номер телефона к формату E.164
+ *
+ * Российские номера принимаются в любом привычном виде (8…, 7…, +7…,
+ * 10 цифр без кода страны), иностранные — только с «+» и кодом страны.
+ *
+ * @throws {ValidationError} Если формат номера не распознан
+ *
+ * @example
+ * ```typescript
+ * normalizePhone('8 (999) 123-45-67'); // '+79991234567'
+ * normalizePhone('9991234567');        // '+79991234567'
+ * normalizePhone('+375 29 123-45-67'); // '+375291234567'
+ * ```
+ */
+export function normalizePhone(phone: string): string {
+  const trimmed = typeof phone === 'string' ? phone.trim() : '';
+
+  if (!/^\+?[\d\s()-]+$/.test(trimmed)) {
+    throw invalidPhone(phone);
+  }
+
+  const digits = trimmed.replace(/\D/g, '');
+  const international = trimmed.startsWith('+');
+
+  if (digits.length === 11 && (digits[0] === '7' || (digits[0] === '8' && !international))) {
+    return `+7${digits.slice(1)}`;
+  }
+  if (digits.length === 10 && !international) {
+    return `+7${digits}`;
+  }
+  // Другие страны: код страны не начинается с 0, всего не больше 15 цифр
+  if (international && digits[0] !== '7' && digits[0] !== '0' && digits.length >= 8 && digits.length <= 15) {
+    return `+${digits}`;
+  }
+
+  throw invalidPhone(phone);
+}
+
+/**
+ * Проверяет, что номер телефона распознаётся normalizePhone()
+ */
+export function isValidPhone(phone: string): boolean {
+  try {
+    normalizePhone(phone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Создаёт ошибку нераспознанного номера телефона
+ */
+function invalidPhone(phone: unknown): ValidationError {
+  return new ValidationError(`Не удалось распознать номер телефона: ${String(phone)}`, 'INVALID_PHONE');
+}
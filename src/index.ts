@@ -1,16 +1,73 @@
 export { NalogApi, NalogApiError, default } from './NalogApi.js';
+export {
+  AuthenticationError,
+  ValidationError,
+  RateLimitError,
+  IncomeLimitExceededError,
+  ReceiptAlreadyCancelledError,
+  ServerError,
+  NetworkError,
+  TimeoutError,
+  LocalValidationError,
+  ReceiptValidationError,
+  PaymentDetailsValidationError,
+  NalogApiErrorDetails,
+  ValidationIssue,
+} from './errors.js';
+export { FileTokenStore, MemoryTokenStore, EncryptedFileTokenStore } from './TokenStore.js';
+export { MemoryIncomeLedger, FileIncomeLedger } from './IncomeLedger.js';
+export {
+  validateCreateIncomeParams,
+  validateCreateMultipleIncomeParams,
+  validateIncomeClient,
+  validatePaymentDetails,
+  MAX_SERVICE_NAME_LENGTH,
+  MAX_CLIENT_NAME_LENGTH,
+  MAX_RECEIPT_AMOUNT,
+} from './validation.js';
+export {
+  isValidInn,
+  isValidLegalInn,
+  isValidIndividualInn,
+  isValidKpp,
+  isValidOgrn,
+  isValidOgrnip,
+  isValidBik,
+  isValidBankAccount,
+  isValidCorrAccount,
+  isValidPhone,
+  normalizePhone,
+} from './identifiers.js';
+export { toKopecks, formatKopecks, multiplyKopecks, formatAmount } from './money.js';
+export { REDACTED, redactString, redactRequestBody, redactResponseBody, maskPhone } from './redact.js';
+export { renderReceiptHtml, renderReceiptPdf } from './renderer.js';
 export {
   // Enums
   IncomeType,
   PaymentType,
   CancelReason,
   SourceType,
+  IncomeSortBy,
+  IncomeStatusFilter,
+  InvoiceStatus,
+  PaymentDetailsType,
   // Auth interfaces
   AuthByInnParams,
   AuthByPhoneParams,
   NalogApiOptions,
   AuthState,
   SavedTokens,
+  TokenStore,
+  SessionRenewalReason,
+  RetryPolicy,
+  RequestOptions,
+  FetchFunction,
+  Amount,
+  Logger,
+  Interceptor,
+  RequestContext,
+  ResponseContext,
+  ErrorContext,
   AuthProfile,
   // Income interfaces
   IncomeClient,
@@ -20,10 +77,38 @@ export {
   CancelIncomeParams,
   IncomeResult,
   Receipt,
+  IncomeLedger,
+  IncomeLedgerEntry,
   ReceiptJson,
+  ListIncomesParams,
+  IncomeListItem,
+  IncomeListResponse,
+  // Tax interfaces
+  TaxSummary,
+  TaxPeriodRecord,
+  TaxHistoryResponse,
   // API interfaces
   DeviceInfo,
   TokenResponse,
   UserInfo,
+  Counterparty,
+  Invoice,
+  CreateInvoiceParams,
+  ListInvoicesParams,
+  InvoiceListResponse,
+  PayInvoiceParams,
+  InvoiceReceipt,
+  PaymentDetails,
+  PaymentDetailsParams,
+  PaymentDetailsListResponse,
+  ReceiptFile,
+  ReceiptHttpResponse,
+  ReceiptRenderOptions,
+  NotificationItem,
+  ListNotificationsParams,
+  NotificationListResponse,
+  SavedClient,
+  SavedClientParams,
+  ClientListResponse,
   ApiError,
 } from './types.js';
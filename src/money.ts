@@ -0,0 +1,177 @@
+import { ValidationError } from './errors.js';
+import { Amount } from './types.js';
+
+/**
+ * Десятичное число: цифры и степень десяти (value = digits * 10^-scale)
+ */
+interface Decimal {
+  digits: bigint;
+  scale: number;
+}
+
+/**
+ * Максимальное число цифр в целой части суммы (в рублях) и количества
+ */
+export const MAX_INTEGER_DIGITS = 15;
+
+/**
+ * Значения меньше 10^-MAX_FRACTION_DIGITS считаются нулём
+ */
+const MAX_FRACTION_DIGITS = 20;
+
+/**
+ * Наибольшее число знаков после запятой в записи с учётом порядка
+ */
+const MAX_SCALE = MAX_INTEGER_DIGITS + MAX_FRACTION_DIGITS;
+
+/**
+ * Наибольшая длина записи числа (с пробелами-разделителями)
+ */
+const MAX_LENGTH = 64;
+
+/**
+ * Десятичная запись: "1234.56", "1234,56", "-0.5", "1e3", "1 234.56"
+ */
+const DECIMAL_PATTERN = /^([+-]?)(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i;
+
+/**
+ * Разбирает десятичную запись без потери точности
+ */
+function parseDecimal(value: string): Decimal | null {
+  const normalized = value.trim().replace(/[\s ]/g, '').replace(',', '.');
+  const match = DECIMAL_PATTERN.exec(normalized);
+
+  if (!match || (!match[2] && !match[3])) {
+    return null;
+  }
+
+  const [, sign, integer, fraction = '', exponent = '0'] = match;
+  const digits = BigInt(`${sign}${integer}${fraction}` || '0');
+  return { digits, scale: fraction.length - Number(exponent) };
+}
+
+/**
+ * Делит с округлением половины от нуля (0.005 → 0.01, -0.005 → -0.01)
+ */
+function divideRounded(value: bigint, divisor: bigint): bigint {
+  const quotient = value / divisor;
+  const remainder = value % divisor;
+  const twice = (remainder < 0n ? -remainder : remainder) * 2n;
+
+  if (twice >= divisor) {
+    return value < 0n ? quotient - 1n : quotient + 1n;
+  }
+  return quotient;
+}
+
+/**
+ * Приводит десятичное число к заданному числу знаков после запятой
+ */
+function rescale({ digits, scale }: Decimal, targetScale: number): bigint {
+  if (scale <= targetScale) {
+    return digits * 10n ** BigInt(targetScale - scale);
+  }
+  return divideRounded(digits, 10n ** BigInt(scale - targetScale));
+}
+
+/**
+ * Разбирает число в десятичное представление
+ */
+function toDecimal(value: number | string, label: string): Decimal {
+  if (typeof value === 'number' && !Number.isFinite(value)) {
+    throw new ValidationError(`Некорректное значение (${label}): ${value}`, 'INVALID_AMOUNT');
+  }
+
+  // Для number берём кратчайшую десятичную запись: 0.145 → "0.145", а не 0.14499999…
+  const text = String(value);
+  if (text.length > MAX_LENGTH) {
+    throw new ValidationError(`Слишком длинная запись числа (${label}): ${text.slice(0, 20)}…`, 'INVALID_AMOUNT');
+  }
+
+  const decimal = parseDecimal(text);
+  if (!decimal) {
+    throw new ValidationError(`Некорректное значение (${label}): ${value}`, 'INVALID_AMOUNT');
+  }
+  if (decimal.digits === 0n) {
+    return { digits: 0n, scale: 0 };
+  }
+
+  // Порядок проверяем до возведения 10 в степень: огромный показатель стоит времени и памяти
+  const magnitude = String(decimal.digits < 0n ? -decimal.digits : decimal.digits).length - decimal.scale;
+  if (magnitude > MAX_INTEGER_DIGITS) {
+    throw new ValidationError(`Слишком большое значение (${label}): ${value}`, 'INVALID_AMOUNT');
+  }
+  if (magnitude < -MAX_FRACTION_DIGITS) {
+    return { digits: 0n, scale: 0 };
+  }
+  if (decimal.scale > MAX_SCALE) {
+    throw new ValidationError(`Слишком много знаков после запятой (${label}): ${value}`, 'INVALID_AMOUNT');
+  }
+  return decimal;
+}
+
+/**
+ * Переводит сумму в копейки
+ *
+ * number и string — сумма в рублях, округляется до копеек (половина — от нуля);
+ * bigint — уже сумма в копейках. Целая часть в рублях — не длиннее
+ * MAX_INTEGER_DIGITS цифр.
+ *
+ * @throws {ValidationError} Если сумма не является числом или слишком велика
+ *
+ * @example
+ * ```typescript
+ * toKopecks(10.005);     // 1001n
+ * toKopecks('1 234,5');  // 123450n
+ * toKopecks(150n);       // 150n
+ * ```
+ */
+export function toKopecks(amount: Amount): bigint {
+  if (typeof amount === 'bigint') {
+    if ((amount < 0n ? -amount : amount) >= 10n ** BigInt(MAX_INTEGER_DIGITS + 2)) {
+      throw new ValidationError(`Слишком большое значение (сумма): ${amount}`, 'INVALID_AMOUNT');
+    }
+    return amount;
+  }
+  if (typeof amount !== 'number' && typeof amount !== 'string') {
+    throw new ValidationError(`Некорректное значение (сумма): ${String(amount)}`, 'INVALID_AMOUNT');
+  }
+  return rescale(toDecimal(amount, 'сумма'), 2);
+}
+
+/**
+ * Форматирует копейки в строку рублей для API: 123450n → "1234.5", 100n → "1"
+ */
+export function formatKopecks(kopecks: bigint): string {
+  const negative = kopecks < 0n;
+  const abs = negative ? -kopecks : kopecks;
+  const rubles = abs / 100n;
+  const cents = String(abs % 100n).padStart(2, '0').replace(/0+$/, '');
+  return `${negative ? '-' : ''}${rubles}${cents ? `.${cents}` : ''}`;
+}
+
+/**
+ * Вычисляет стоимость позиции в копейках: цена × количество,
+ * округлённая до копеек (половина — от нуля)
+ */
+export function multiplyKopecks(kopecks: bigint, quantity: number | string): bigint {
+  const { digits, scale } = toDecimal(quantity, 'количество');
+
+  if (scale <= 0) {
+    return kopecks * digits * 10n ** BigInt(-scale);
+  }
+  return divideRounded(kopecks * digits, 10n ** BigInt(scale));
+}
+
+/**
+ * Нормализует сумму для API: округляет до копеек и форматирует
+ *
+ * @example
+ * ```typescript
+ * formatAmount(33.333333); // "33.33"
+ * formatAmount(0.1 + 0.2); // "0.3"
+ * ```
+ */
+export function formatAmount(amount: Amount): string {
+  return formatKopecks(toKopecks(amount));
+}
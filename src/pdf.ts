@@ -0,0 +1,213 @@
+/**
+ * Ширина символа моноширинного шрифта в долях кегля
+ */
+export const PDF_CHAR_WIDTH = 0.6;
+
+/**
+ * Шрифты страницы: Courier New (не встраивается, берётся из системы)
+ */
+const FONTS = {
+  regular: { name: 'F1', baseFont: 'CourierNewPSMT' },
+  bold: { name: 'F2', baseFont: 'CourierNewPS-BoldMT' },
+};
+
+/**
+ * Символы вне ASCII и их коды в кодировке шрифта (Windows-1251, ₽ и ×)
+ */
+const CHAR_CODES: Record<string, number> = {
+  '₽': 0x88,
+  '–': 0x96,
+  '—': 0x97,
+  '×': 0x98,
+  '\u00a0': 0x20,
+  'Ё': 0xa8,
+  '«': 0xab,
+  'ё': 0xb8,
+  '№': 0xb9,
+  '»': 0xbb,
+};
+
+/**
+ * Имена глифов для кодов, которых нет в WinAnsiEncoding
+ */
+const DIFFERENCES = [
+  '136 /uni20BD',
+  '152 /multiply',
+  '168 /uni0401',
+  '184 /uni0451 /uni2116',
+  `192 ${Array.from({ length: 64 }, (_, i) => `/uni${(0x410 + i).toString(16).toUpperCase().padStart(4, '0')}`).join(' ')}`,
+].join(' ');
+
+/**
+ * Параметры текста на странице
+ */
+export interface PdfTextOptions {
+  /** Кегль в пунктах */
+  size: number;
+  /** Полужирное начертание */
+  bold?: boolean;
+  /** Угол поворота в градусах против часовой стрелки */
+  angle?: number;
+}
+
+/**
+ * Одностраничный PDF-документ с текстом и закрашенными прямоугольниками
+ *
+ * Координаты — в пунктах от левого нижнего угла страницы.
+ *
+ * @example
+ * ```typescript
+ * const page = new PdfPage(300, 200);
+ * page.text('Чек №2026u7ia1u', 20, 170, { size: 12, bold: true });
+ * fs.writeFileSync('receipt.pdf', page.toBuffer('Чек'));
+ * ```
+ */
+export class PdfPage {
+  readonly width: number;
+  readonly height: number;
+  private readonly operations: string[] = [];
+  private readonly opacities: number[] = [];
+
+  constructor(width: number, height: number) {
+    this.width = width;
+    this.height = height;
+  }
+
+  /**
+   * Выводит строку текста; x, y — начало базовой линии
+   */
+  text(value: string, x: number, y: number, options: PdfTextOptions): this {
+    const font = options.bold ? FONTS.bold : FONTS.regular;
+    const radians = ((options.angle ?? 0) * Math.PI) / 180;
+    const cos = Math.cos(radians);
+    const sin = Math.sin(radians);
+    const matrix = [cos, sin, -sin, cos, x, y].map(formatNumber).join(' ');
+
+    this.operations.push(`BT /${font.name} ${formatNumber(options.size)} Tf ${matrix} Tm ${encodeText(value)} Tj ET`);
+    return this;
+  }
+
+  /**
+   * Закрашивает прямоугольник текущим цветом
+   */
+  rect(x: number, y: number, width: number, height: number): this {
+    this.operations.push(`${[x, y, width, height].map(formatNumber).join(' ')} re f`);
+    return this;
+  }
+
+  /**
+   * Устанавливает цвет заливки (компоненты от 0 до 1)
+   */
+  setFillColor(red: number, green: number, blue: number): this {
+    this.operations.push(`${[red, green, blue].map(formatNumber).join(' ')} rg`);
+    return this;
+  }
+
+  /**
+   * Устанавливает непрозрачность заливки (от 0 до 1)
+   */
+  setOpacity(alpha: number): this {
+    let index = this.opacities.indexOf(alpha);
+    if (index === -1) {
+      index = this.opacities.push(alpha) - 1;
+    }
+    this.operations.push(`/GS${index + 1} gs`);
+    return this;
+  }
+
+  /**
+   * Сохраняет графическое состояние (цвет, непрозрачность)
+   */
+  save(): this {
+    this.operations.push('q');
+    return this;
+  }
+
+  /**
+   * Восстанавливает графическое состояние, сохранённое save()
+   */
+  restore(): this {
+    this.operations.push('Q');
+    return this;
+  }
+
+  /**
+   * Собирает PDF-файл
+   */
+  toBuffer(title?: string): Buffer {
+    const content = this.operations.join('\n');
+    const states = this.opacities
+      .map((alpha, i) => `/GS${i + 1} << /Type /ExtGState /ca ${formatNumber(alpha)} >>`)
+      .join(' ');
+    const widths = new Array(224).fill(1000 * PDF_CHAR_WIDTH).join(' ');
+
+    const objects = [
+      '<< /Type /Catalog /Pages 2 0 R >>',
+      '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${formatNumber(this.width)} ${formatNumber(this.height)}]`
+        + ` /Resources << /Font << /F1 5 0 R /F2 6 0 R >> /ExtGState << ${states} >> >> /Contents 4 0 R >>`,
+      `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+      ...[FONTS.regular, FONTS.bold].map((font, i) => `<< /Type /Font /Subtype /TrueType /BaseFont /${font.baseFont}`
+        + ` /FirstChar 32 /LastChar 255 /Widths [${widths}] /FontDescriptor ${8 + i} 0 R /Encoding 7 0 R >>`),
+      `<< /Type /Encoding /BaseEncoding /WinAnsiEncoding /Differences [${DIFFERENCES}] >>`,
+      ...[FONTS.regular, FONTS.bold].map((font) => `<< /Type /FontDescriptor /FontName /${font.baseFont} /Flags 35`
+        + ' /FontBBox [-21 -680 638 1021] /ItalicAngle 0 /Ascent 833 /Descent -300 /CapHeight 571 /StemV 80'
+        + ` /MissingWidth ${1000 * PDF_CHAR_WIDTH} >>`),
+      `<< /Producer (lknpd-nalog-api-ts)${title ? ` /Title ${encodeTextString(title)}` : ''} >>`,
+    ];
+
+    // Бинарный комментарий во второй строке — признак двоичного файла для транспорта
+    let output = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n';
+    const offsets = objects.map((object, i) => {
+      const offset = output.length;
+      output += `${i + 1} 0 obj\n${object}\nendobj\n`;
+      return offset;
+    });
+
+    const xref = output.length;
+    output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    output += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+    output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info ${objects.length} 0 R >>\n`;
+    output += `startxref\n${xref}\n%%EOF\n`;
+
+    return Buffer.from(output, 'latin1');
+  }
+}
+
+/**
+ * Форматирует число для PDF: не больше трёх знаков после запятой
+ */
+function formatNumber(value: number): string {
+  const rounded = Math.round(value * 1000) / 1000;
+  return String(Object.is(rounded, -0) ? 0 : rounded);
+}
+
+/**
+ * Кодирует текст для вывода шрифтом страницы (шестнадцатеричная строка)
+ *
+ * Символы, которых нет в кодировке шрифта, заменяются на «?».
+ */
+function encodeText(value: string): string {
+  const hex = [...value].map((char) => {
+    const code = char.codePointAt(0) as number;
+    let byte = CHAR_CODES[char] ?? 0x3f;
+    if (code >= 0x20 && code <= 0x7e) {
+      byte = code;
+    } else if (code >= 0x410 && code <= 0x44f) {
+      byte = 0xc0 + code - 0x410;
+    }
+    return byte.toString(16).padStart(2, '0');
+  });
+  return `<${hex.join('')}>`;
+}
+
+/**
+ * Кодирует строку метаданных документа (UTF-16BE с BOM)
+ */
+function encodeTextString(value: string): string {
+  const hex = [...value].map((char) => {
+    const code = char.codePointAt(0) as number;
+    return code > 0xffff ? '003f' : code.toString(16).padStart(4, '0');
+  });
+  return `<feff${hex.join('')}>`;
+}
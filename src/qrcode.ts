@@ -0,0 +1,468 @@
+import { ValidationError } from './errors.js';
+
+/**
+ * QR-код: матрица модулей [y][x], true — тёмный модуль (без свободной зоны)
+ */
+export type QrMatrix = boolean[][];
+
+/**
+ * Количество байтов коррекции в блоке для уровня M (версии 1–40)
+ */
+const ECC_CODEWORDS_PER_BLOCK = [
+  10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26,
+  26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28,
+];
+
+/**
+ * Количество блоков коррекции для уровня M (версии 1–40)
+ */
+const ERROR_CORRECTION_BLOCKS = [
+  1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16,
+  17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49,
+];
+
+/**
+ * Код уровня коррекции M в служебной информации о формате
+ */
+const ECC_LEVEL_M = 0b00;
+
+/**
+ * Матрица в процессе построения: модули и признак служебных модулей
+ */
+interface Grid {
+  size: number;
+  modules: boolean[][];
+  reserved: boolean[][];
+}
+
+/**
+ * Кодирует строку (UTF-8) в QR-код: байтовый режим, уровень коррекции M
+ *
+ * @throws {ValidationError} Если данные не помещаются в QR-код версии 40
+ *
+ * @example
+ * ```typescript
+ * const matrix = encodeQrCode('https://lknpd.nalog.ru/api/v1/receipt/500100732259/2026u7ia1u/print');
+ * matrix.length; // 37 (версия 5)
+ * ```
+ */
+export function encodeQrCode(text: string): QrMatrix {
+  const data = [...Buffer.from(text, 'utf8')];
+  const version = selectVersion(data.length);
+  const codewords = addErrorCorrection(encodeData(data, version), version);
+
+  const grid = createGrid(version);
+  drawFunctionPatterns(grid, version);
+  drawCodewords(grid, codewords);
+
+  // Выбираем маску с наименьшим штрафом (ISO/IEC 18004, 7.8.3)
+  let bestMask = 0;
+  let bestPenalty = Infinity;
+  for (let mask = 0; mask < 8; mask++) {
+    applyMask(grid, mask);
+    drawFormatBits(grid, mask);
+    const penalty = getPenalty(grid.modules);
+    if (penalty < bestPenalty) {
+      bestMask = mask;
+      bestPenalty = penalty;
+    }
+    applyMask(grid, mask);
+  }
+
+  applyMask(grid, bestMask);
+  drawFormatBits(grid, bestMask);
+  return grid.modules;
+}
+
+/**
+ * Вычисляет байты коррекции Рида — Соломона (поле GF(256), многочлен 0x11D)
+ */
+export function reedSolomonRemainder(data: number[], degree: number): number[] {
+  const divisor = reedSolomonDivisor(degree);
+  const result = new Array<number>(degree).fill(0);
+
+  for (const byte of data) {
+    const factor = byte ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coefficient, i) => {
+      result[i] ^= gfMultiply(coefficient, factor);
+    });
+  }
+  return result;
+}
+
+/**
+ * Строит порождающий многочлен кода Рида — Соломона заданной степени
+ */
+function reedSolomonDivisor(degree: number): number[] {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < degree; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < degree) {
+        result[j] ^= result[j + 1];
+      }
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+}
+
+/**
+ * Умножение в поле GF(256)
+ */
+function gfMultiply(x: number, y: number): number {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+}
+
+/**
+ * Количество модулей под данные и коррекцию в версии
+ */
+function getRawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const alignments = Math.floor(version / 7) + 2;
+    result -= (25 * alignments - 10) * alignments - 55;
+    if (version >= 7) {
+      result -= 36;
+    }
+  }
+  return result;
+}
+
+/**
+ * Количество байтов данных (без коррекции) в версии
+ */
+function getDataCodewords(version: number): number {
+  return Math.floor(getRawDataModules(version) / 8)
+    - ECC_CODEWORDS_PER_BLOCK[version - 1] * ERROR_CORRECTION_BLOCKS[version - 1];
+}
+
+/**
+ * Длина поля количества байтов в байтовом режиме
+ */
+function getLengthBits(version: number): number {
+  return version < 10 ? 8 : 16;
+}
+
+/**
+ * Подбирает наименьшую версию, в которую помещаются данные
+ */
+function selectVersion(length: number): number {
+  for (let version = 1; version <= 40; version++) {
+    if (4 + getLengthBits(version) + length * 8 <= getDataCodewords(version) * 8) {
+      return version;
+    }
+  }
+  throw new ValidationError(`Слишком длинные данные для QR-кода: ${length} байт`, 'QR_DATA_TOO_LONG');
+}
+
+/**
+ * Формирует байты данных: режим, длина, данные, терминатор и заполнение
+ */
+function encodeData(data: number[], version: number): number[] {
+  const capacity = getDataCodewords(version) * 8;
+  const bits: number[] = [];
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) {
+      bits.push((value >>> i) & 1);
+    }
+  };
+
+  append(0b0100, 4);
+  append(data.length, getLengthBits(version));
+  data.forEach((byte) => append(byte, 8));
+  append(0, Math.min(4, capacity - bits.length));
+  append(0, (8 - (bits.length % 8)) % 8);
+
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((acc, bit) => (acc << 1) | bit, 0));
+  }
+  for (let pad = 0xec; codewords.length < capacity / 8; pad ^= 0xec ^ 0x11) {
+    codewords.push(pad);
+  }
+  return codewords;
+}
+
+/**
+ * Делит данные на блоки, добавляет коррекцию и чередует байты блоков
+ */
+function addErrorCorrection(data: number[], version: number): number[] {
+  const blockCount = ERROR_CORRECTION_BLOCKS[version - 1];
+  const eccLength = ECC_CODEWORDS_PER_BLOCK[version - 1];
+  const rawCodewords = Math.floor(getRawDataModules(version) / 8);
+  const shortBlocks = blockCount - (rawCodewords % blockCount);
+  const shortBlockLength = Math.floor(rawCodewords / blockCount);
+
+  const blocks: number[][] = [];
+  for (let i = 0, offset = 0; i < blockCount; i++) {
+    const block = data.slice(offset, offset + shortBlockLength - eccLength + (i < shortBlocks ? 0 : 1));
+    offset += block.length;
+    const ecc = reedSolomonRemainder(block, eccLength);
+    // Выравниваем короткие блоки, чтобы чередовать по одному индексу
+    if (i < shortBlocks) {
+      block.push(0);
+    }
+    blocks.push([...block, ...ecc]);
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      if (i !== shortBlockLength - eccLength || j >= shortBlocks) {
+        result.push(block[i]);
+      }
+    });
+  }
+  return result;
+}
+
+/**
+ * Создаёт пустую матрицу для версии
+ */
+function createGrid(version: number): Grid {
+  const size = version * 4 + 17;
+  const empty = () => Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  return { size, modules: empty(), reserved: empty() };
+}
+
+/**
+ * Устанавливает служебный модуль
+ */
+function setReserved(grid: Grid, x: number, y: number, dark: boolean): void {
+  grid.modules[y][x] = dark;
+  grid.reserved[y][x] = true;
+}
+
+/**
+ * Рисует поисковые и выравнивающие узоры, синхронизацию и служебную информацию
+ */
+function drawFunctionPatterns(grid: Grid, version: number): void {
+  const { size } = grid;
+
+  for (let i = 0; i < size; i++) {
+    setReserved(grid, 6, i, i % 2 === 0);
+    setReserved(grid, i, 6, i % 2 === 0);
+  }
+
+  for (const [cx, cy] of [[3, 3], [size - 4, 3], [3, size - 4]]) {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const x = cx + dx;
+        const y = cy + dy;
+        const distance = Math.max(Math.abs(dx), Math.abs(dy));
+        if (x >= 0 && x < size && y >= 0 && y < size) {
+          setReserved(grid, x, y, distance !== 2 && distance !== 4);
+        }
+      }
+    }
+  }
+
+  const positions = getAlignmentPositions(version);
+  const last = positions.length - 1;
+  positions.forEach((cy, i) => {
+    positions.forEach((cx, j) => {
+      // Пропускаем углы, занятые поисковыми узорами
+      if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) {
+        return;
+      }
+      for (let dy = -2; dy <= 2; dy++) {
+        for (let dx = -2; dx <= 2; dx++) {
+          setReserved(grid, cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+        }
+      }
+    });
+  });
+
+  // Резервируем место под формат, настоящие биты рисуются после выбора маски
+  drawFormatBits(grid, 0);
+  drawVersionBits(grid, version);
+}
+
+/**
+ * Координаты центров выравнивающих узоров
+ */
+function getAlignmentPositions(version: number): number[] {
+  if (version === 1) {
+    return [];
+  }
+  const count = Math.floor(version / 7) + 2;
+  const step = Math.floor((version * 8 + count * 3 + 5) / (count * 4 - 4)) * 2;
+  const result = [6];
+  for (let position = version * 4 + 10; result.length < count; position -= step) {
+    result.splice(1, 0, position);
+  }
+  return result;
+}
+
+/**
+ * Рисует информацию о формате: уровень коррекции и маска (код БЧХ 15,5)
+ */
+function drawFormatBits(grid: Grid, mask: number): void {
+  const { size } = grid;
+  const data = (ECC_LEVEL_M << 3) | mask;
+  let remainder = data;
+  for (let i = 0; i < 10; i++) {
+    remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+  }
+  const bits = ((data << 10) | remainder) ^ 0x5412;
+  const bit = (i: number) => ((bits >>> i) & 1) === 1;
+
+  for (let i = 0; i <= 5; i++) {
+    setReserved(grid, 8, i, bit(i));
+  }
+  setReserved(grid, 8, 7, bit(6));
+  setReserved(grid, 8, 8, bit(7));
+  setReserved(grid, 7, 8, bit(8));
+  for (let i = 9; i < 15; i++) {
+    setReserved(grid, 14 - i, 8, bit(i));
+  }
+
+  for (let i = 0; i < 8; i++) {
+    setReserved(grid, size - 1 - i, 8, bit(i));
+  }
+  for (let i = 8; i < 15; i++) {
+    setReserved(grid, 8, size - 15 + i, bit(i));
+  }
+  setReserved(grid, 8, size - 8, true);
+}
+
+/**
+ * Рисует информацию о версии (версии 7 и выше, код Голея 18,6)
+ */
+function drawVersionBits(grid: Grid, version: number): void {
+  if (version < 7) {
+    return;
+  }
+  let remainder = version;
+  for (let i = 0; i < 12; i++) {
+    remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+  }
+  const bits = (version << 12) | remainder;
+
+  for (let i = 0; i < 18; i++) {
+    const dark = ((bits >>> i) & 1) === 1;
+    const a = grid.size - 11 + (i % 3);
+    const b = Math.floor(i / 3);
+    setReserved(grid, a, b, dark);
+    setReserved(grid, b, a, dark);
+  }
+}
+
+/**
+ * Размещает байты зигзагом по парам столбцов снизу вверх и обратно
+ */
+function drawCodewords(grid: Grid, codewords: number[]): void {
+  const { size } = grid;
+  let index = 0;
+
+  for (let right = size - 1; right >= 1; right -= 2) {
+    // Вертикальная линия синхронизации не занимает столбец данных
+    if (right === 6) {
+      right = 5;
+    }
+    const upward = ((right + 1) & 2) === 0;
+    for (let step = 0; step < size; step++) {
+      const y = upward ? size - 1 - step : step;
+      for (let j = 0; j < 2; j++) {
+        const x = right - j;
+        if (!grid.reserved[y][x] && index < codewords.length * 8) {
+          grid.modules[y][x] = ((codewords[index >>> 3] >>> (7 - (index & 7))) & 1) === 1;
+          index++;
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Условия масок 0–7: модуль инвертируется, если условие истинно
+ */
+const MASKS: ((x: number, y: number) => boolean)[] = [
+  (x, y) => (x + y) % 2 === 0,
+  (_x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+];
+
+/**
+ * Накладывает маску на модули данных (повторное наложение снимает её)
+ */
+function applyMask(grid: Grid, mask: number): void {
+  for (let y = 0; y < grid.size; y++) {
+    for (let x = 0; x < grid.size; x++) {
+      if (!grid.reserved[y][x] && MASKS[mask](x, y)) {
+        grid.modules[y][x] = !grid.modules[y][x];
+      }
+    }
+  }
+}
+
+/**
+ * Узор, похожий на поисковый (1:1:3:1:1 со светлой полосой в 4 модуля)
+ */
+const FINDER_LIKE = [
+  [true, false, true, true, true, false, true, false, false, false, false],
+  [false, false, false, false, true, false, true, true, true, false, true],
+];
+
+/**
+ * Вычисляет штраф маски по четырём правилам ISO/IEC 18004
+ */
+function getPenalty(modules: QrMatrix): number {
+  const size = modules.length;
+  const columns = modules.map((_, x) => modules.map((row) => row[x]));
+  let penalty = 0;
+
+  for (const line of [...modules, ...columns]) {
+    // Правило 1: пять и более модулей одного цвета подряд
+    let run = 1;
+    for (let i = 1; i <= size; i++) {
+      if (i < size && line[i] === line[i - 1]) {
+        run++;
+        continue;
+      }
+      if (run >= 5) {
+        penalty += run - 2;
+      }
+      run = 1;
+    }
+
+    // Правило 3: узоры, похожие на поисковые
+    for (let i = 0; i + 11 <= size; i++) {
+      if (FINDER_LIKE.some((pattern) => pattern.every((dark, k) => line[i + k] === dark))) {
+        penalty += 40;
+      }
+    }
+  }
+
+  // Правило 2: квадраты 2×2 одного цвета
+  for (let y = 0; y + 1 < size; y++) {
+    for (let x = 0; x + 1 < size; x++) {
+      const color = modules[y][x];
+      if (modules[y][x + 1] === color && modules[y + 1][x] === color && modules[y + 1][x + 1] === color) {
+        penalty += 3;
+      }
+    }
+  }
+
+  // Правило 4: отклонение доли тёмных модулей от 50%
+  const dark = modules.reduce((acc, row) => acc + row.filter(Boolean).length, 0);
+  const percent = (dark * 100) / (size * size);
+  penalty += Math.floor(Math.abs(percent - 50) / 5) * 10;
+
+  return penalty;
+}
@@ -0,0 +1,135 @@
+/**
+ * Замена для скрытых значений
+ */
+export const REDACTED = '[REDACTED]';
+
+/**
+ * Ключи, значения которых скрываются в телах запросов и ответов
+ */
+const SECRET_KEYS = new Set([
+  'password',
+  'token',
+  'accessToken',
+  'refreshToken',
+  'challengeToken',
+  'authorization',
+  'Authorization',
+]);
+
+/**
+ * Ключи, которые скрываются только в телах запросов
+ * (в ответах code — это код ошибки, а не код из SMS)
+ */
+const REQUEST_SECRET_KEYS = new Set([...SECRET_KEYS, 'code']);
+
+/**
+ * Номер телефона: +7 999 123-45-67, 8(999)1234567, 79991234567 и т.п.
+ */
+const PHONE_PATTERN = /(?<![\d+])(?:\+7|7|8)[\s-]?\(?\d{3}\)?[\s-]?\d{3}[\s-]?\d{2}[\s-]?\d{2}(?!\d)/g;
+
+/**
+ * Bearer-токен в строке (например, в заголовке или тексте ошибки)
+ */
+const BEARER_PATTERN = /\bBearer\s+[^\s"',]+/gi;
+
+/**
+ * Маскирует номер телефона, оставляя две последние цифры: +7********67
+ */
+export function maskPhone(phone: string): string {
+  const digits = phone.replace(/\D/g, '');
+  if (digits.length < 4) {
+    return REDACTED;
+  }
+  return `+${digits[0] === '8' ? '7' : digits[0]}${'*'.repeat(digits.length - 3)}${digits.slice(-2)}`;
+}
+
+/**
+ * Скрывает телефоны и Bearer-токены в строке
+ */
+export function redactString(value: string): string {
+  return value
+    .replace(BEARER_PATTERN, `Bearer ${REDACTED}`)
+    .replace(PHONE_PATTERN, (phone) => maskPhone(phone));
+}
+
+/**
+ * Проверяет, что значение — обычный объект (не Error, Date, Buffer и т.п.)
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+/**
+ * Возвращает копию значения, в которой секреты заменены на [REDACTED]
+ */
+function redactKeys(value: unknown, keys: Set<string>): unknown {
+  if (typeof value === 'string') {
+    return redactString(value);
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => redactKeys(item, keys));
+  }
+
+  if (isPlainObject(value)) {
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      result[key] = keys.has(key) && item !== null && item !== undefined
+        ? REDACTED
+        : redactKeys(item, keys);
+    }
+    return result;
+  }
+
+  return value;
+}
+
+/**
+ * Скрывает секреты в теле запроса: пароли, токены, SMS-коды и телефоны
+ */
+export function redactRequestBody(body: unknown): unknown {
+  return redactKeys(body, REQUEST_SECRET_KEYS);
+}
+
+/**
+ * Скрывает секреты в теле ответа: токены и телефоны
+ */
+export function redactResponseBody(data: unknown): unknown {
+  return redactKeys(data, SECRET_KEYS);
+}
+
+/**
+ * Скрывает токены в заголовках запроса
+ */
+export function redactHeaders(headers: Record<string, string>): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const [key, value] of Object.entries(headers)) {
+    result[key] = key.toLowerCase() === 'authorization' ? redactString(value) : value;
+  }
+  return result;
+}
+
+/**
+ * Возвращает копию ошибки со скрытыми секретами в сообщении и стеке
+ *
+ * Ошибки с методом toJSON() возвращаются как есть.
+ */
+export function redactError(error: unknown): unknown {
+  // Ошибки с собственной сериализацией (NalogApiError) скрывают секреты сами
+  if (error instanceof Error && typeof (error as { toJSON?: unknown }).toJSON === 'function') {
+    return error;
+  }
+
+  if (!(error instanceof Error)) {
+    return redactResponseBody(error);
+  }
+
+  const copy = new Error(redactString(error.message));
+  copy.name = error.name;
+  copy.stack = error.stack && redactString(error.stack);
+  return copy;
+}
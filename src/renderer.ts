@@ -0,0 +1,377 @@
+import { ReceiptJson, ReceiptRenderOptions } from './types.js';
+import { multiplyKopecks, toKopecks } from './money.js';
+import { encodeQrCode, QrMatrix } from './qrcode.js';
+import { PDF_CHAR_WIDTH, PdfPage } from './pdf.js';
+
+/**
+ * Адрес API для ссылки в QR-коде по умолчанию
+ */
+const DEFAULT_BASE_URL = 'https://lknpd.nalog.ru/api/v1';
+
+/**
+ * Надпись поверх аннулированного чека
+ */
+const CANCELLED_WATERMARK = 'АННУЛИРОВАН';
+
+/**
+ * Ширина свободной зоны вокруг QR-кода в модулях
+ */
+const QR_QUIET_ZONE = 4;
+
+/**
+ * Строка «название — значение»
+ */
+interface ReceiptLine {
+  label: string;
+  value: string;
+}
+
+/**
+ * Позиция чека, готовая к выводу
+ */
+interface ReceiptServiceLine {
+  /** Номер и наименование: "1. Услуга" */
+  name: string;
+  /** Количество и цена, если количество не равно 1: "2 × 500,00 ₽" */
+  details: string | null;
+  /** Стоимость позиции */
+  amount: string;
+}
+
+/**
+ * Содержимое чека, общее для HTML и PDF
+ */
+interface ReceiptView {
+  title: string;
+  operationTime: string;
+  seller: ReceiptLine[];
+  services: ReceiptServiceLine[];
+  total: string;
+  buyer: ReceiptLine[];
+  cancellation: ReceiptLine[] | null;
+  qr: QrMatrix;
+}
+
+/**
+ * Отрисовывает чек в самодостаточный HTML (стили и QR-код встроены)
+ *
+ * Для аннулированного чека добавляется водяной знак «АННУЛИРОВАН».
+ *
+ * @example
+ * ```typescript
+ * const receipt = await api.getReceiptJson('2026u7ia1u');
+ * fs.writeFileSync('receipt.html', renderReceiptHtml(receipt));
+ * ```
+ */
+export function renderReceiptHtml(receipt: ReceiptJson, options: ReceiptRenderOptions = {}): string {
+  const view = buildView(receipt, options);
+  const lines = (items: ReceiptLine[]) => items
+    .map((line) => `<div class="row"><span>${escapeHtml(line.label)}</span><span>${escapeHtml(line.value)}</span></div>`)
+    .join('\n');
+  const services = view.services
+    .map((service) => `<tr><td>${escapeHtml(service.name)}${service.details
+      ? `<div class="details">${escapeHtml(service.details)}</div>`
+      : ''}</td><td class="amount">${escapeHtml(service.amount)}</td></tr>`)
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="ru">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(view.title)}</title>
+<style>
+body { margin: 0; padding: 24px; background: #f2f2f2; font-family: Arial, Helvetica, sans-serif; color: #000; }
+.receipt { position: relative; overflow: hidden; max-width: 360px; margin: 0 auto; padding: 24px; background: #fff; font-size: 14px; }
+h1 { margin: 0; font-size: 20px; text-align: center; }
+.time { margin-bottom: 16px; color: #555; text-align: center; }
+.row { display: flex; justify-content: space-between; gap: 16px; margin: 4px 0; }
+.row span:last-child { text-align: right; }
+table { width: 100%; margin: 12px 0; border-collapse: collapse; border-top: 1px solid #000; border-bottom: 1px solid #000; }
+th, td { padding: 6px 0; text-align: left; vertical-align: top; }
+.amount { padding-left: 16px; text-align: right; white-space: nowrap; }
+.details { color: #555; font-size: 12px; }
+.total { font-size: 16px; font-weight: bold; }
+.cancellation { margin-top: 12px; padding-top: 8px; border-top: 1px solid #000; color: #c00; }
+.qr { margin-top: 16px; text-align: center; }
+.watermark { position: absolute; top: 50%; left: 50%; transform: translate(-50%, -50%) rotate(-45deg); color: rgba(204, 0, 0, 0.25); font-size: 48px; font-weight: bold; letter-spacing: 4px; white-space: nowrap; pointer-events: none; }
+</style>
+</head>
+<body>
+<div class="receipt">
+<h1>${escapeHtml(view.title)}</h1>
+<div class="time">${escapeHtml(view.operationTime)}</div>
+${lines(view.seller)}
+<table>
+<thead><tr><th>Наименование</th><th class="amount">Сумма</th></tr></thead>
+<tbody>
+${services}
+</tbody>
+</table>
+<div class="row total"><span>Итого:</span><span>${escapeHtml(view.total)}</span></div>
+${lines(view.buyer)}
+${view.cancellation ? `<div class="cancellation">\n${lines(view.cancellation)}\n</div>\n` : ''}<div class="qr">${renderQrSvg(view.qr)}</div>
+${view.cancellation ? `<div class="watermark">${CANCELLED_WATERMARK}</div>\n` : ''}</div>
+</body>
+</html>
+`;
+}
+
+/**
+ * Отрисовывает чек в одностраничный PDF
+ *
+ * Текст выводится шрифтом Courier New без встраивания: просмотрщик
+ * берёт его из системы, а кириллицу сопоставляет глифам по именам /uniXXXX.
+ * Для аннулированного чека добавляется водяной знак «АННУЛИРОВАН».
+ *
+ * @example
+ * ```typescript
+ * const receipt = await api.getReceiptJson('2026u7ia1u');
+ * fs.writeFileSync('receipt.pdf', renderReceiptPdf(receipt));
+ * ```
+ */
+export function renderReceiptPdf(receipt: ReceiptJson, options: ReceiptRenderOptions = {}): Buffer {
+  const view = buildView(receipt, options);
+
+  const width = 300;
+  const margin = 20;
+  const fontSize = 9;
+  const lineHeight = 12;
+  const titleSize = 12;
+  const qrSize = 120;
+  const columns = Math.floor((width - margin * 2) / (fontSize * PDF_CHAR_WIDTH));
+
+  // Строки текста и разделители сверху вниз
+  const rows: ({ text: string; bold?: boolean; center?: boolean } | 'separator')[] = [];
+  const addLines = (items: ReceiptLine[], bold = false) => {
+    items.forEach((line) => justify(line.label, line.value, columns).forEach((text) => rows.push({ text, bold })));
+  };
+
+  rows.push({ text: view.operationTime, center: true });
+  addLines(view.seller);
+  rows.push('separator');
+  view.services.forEach((service) => {
+    justify(service.name, service.amount, columns).forEach((text) => rows.push({ text }));
+    if (service.details) {
+      wrap(service.details, columns - 3).forEach((text) => rows.push({ text: `   ${text}` }));
+    }
+  });
+  rows.push('separator');
+  addLines([{ label: 'Итого:', value: view.total }], true);
+  addLines(view.buyer);
+  if (view.cancellation) {
+    rows.push('separator');
+    addLines(view.cancellation);
+  }
+
+  const height = margin * 2 + titleSize + lineHeight + rows.length * lineHeight + qrSize;
+  const page = new PdfPage(width, height);
+
+  let y = height - margin - titleSize;
+  const centered = (text: string, size: number) => (width - text.length * size * PDF_CHAR_WIDTH) / 2;
+  page.text(view.title, centered(view.title, titleSize), y, { size: titleSize, bold: true });
+  y -= lineHeight;
+
+  for (const row of rows) {
+    y -= lineHeight;
+    if (row === 'separator') {
+      page.rect(margin, y + fontSize / 4, width - margin * 2, 0.5);
+      continue;
+    }
+    const x = row.center ? centered(row.text, fontSize) : margin;
+    page.text(row.text, x, y, { size: fontSize, bold: row.bold });
+  }
+
+  const moduleSize = qrSize / (view.qr.length + QR_QUIET_ZONE * 2);
+  const qrLeft = (width - qrSize) / 2 + QR_QUIET_ZONE * moduleSize;
+  const qrTop = margin + qrSize - QR_QUIET_ZONE * moduleSize;
+  forEachQrRun(view.qr, (x, row, length) => {
+    page.rect(qrLeft + x * moduleSize, qrTop - (row + 1) * moduleSize, length * moduleSize, moduleSize);
+  });
+
+  if (view.cancellation) {
+    const size = 36;
+    const angle = Math.PI / 4;
+    const half = (CANCELLED_WATERMARK.length * size * PDF_CHAR_WIDTH) / 2;
+    const lift = size * 0.3;
+    page
+      .save()
+      .setOpacity(0.25)
+      .setFillColor(0.8, 0, 0)
+      .text(
+        CANCELLED_WATERMARK,
+        width / 2 - half * Math.cos(angle) + lift * Math.sin(angle),
+        height / 2 - half * Math.sin(angle) - lift * Math.cos(angle),
+        { size, bold: true, angle: 45 }
+      )
+      .restore();
+  }
+
+  return page.toBuffer(view.title);
+}
+
+/**
+ * Собирает содержимое чека из JSON-данных
+ */
+function buildView(receipt: ReceiptJson, options: ReceiptRenderOptions): ReceiptView {
+  const verificationUrl = options.verificationUrl
+    || `${DEFAULT_BASE_URL}/receipt/${receipt.inn}/${receipt.receiptId}/print`;
+
+  const buyer: ReceiptLine[] = [];
+  if (receipt.clientDisplayName) {
+    buyer.push({ label: 'Покупатель:', value: receipt.clientDisplayName });
+  }
+  if (receipt.clientInn) {
+    buyer.push({ label: 'ИНН покупателя:', value: receipt.clientInn });
+  }
+  if (receipt.partnerDisplayName) {
+    const partnerInn = receipt.partnerInn ? ` (ИНН ${receipt.partnerInn})` : '';
+    buyer.push({ label: 'Чек сформировал:', value: `${receipt.partnerDisplayName}${partnerInn}` });
+  }
+  if (receipt.registerTime) {
+    buyer.push({ label: 'Дата регистрации:', value: formatReceiptTime(receipt.registerTime) });
+  }
+
+  let cancellation: ReceiptLine[] | null = null;
+  if (receipt.cancellationInfo) {
+    cancellation = [{ label: 'Чек аннулирован:', value: formatReceiptTime(receipt.cancellationInfo.operationTime) }];
+    if (receipt.cancellationInfo.comment) {
+      cancellation.push({ label: 'Причина:', value: receipt.cancellationInfo.comment });
+    }
+  }
+
+  return {
+    title: `Чек №${receipt.receiptId}`,
+    operationTime: formatReceiptTime(receipt.operationTime),
+    seller: [
+      { label: 'Режим НО:', value: 'НПД' },
+      { label: 'ИНН:', value: receipt.inn },
+    ],
+    services: receipt.services.map((service, i) => ({
+      name: `${i + 1}. ${service.name}`,
+      details: Number(service.quantity) === 1
+        ? null
+        : `${service.quantity} × ${formatRubles(toKopecks(service.amount))}`,
+      amount: formatRubles(multiplyKopecks(toKopecks(service.amount), service.quantity)),
+    })),
+    total: formatRubles(toKopecks(receipt.totalAmount)),
+    buyer,
+    cancellation,
+    qr: encodeQrCode(verificationUrl),
+  };
+}
+
+/**
+ * Форматирует сумму для чека: 123450n → "1 234,50 ₽"
+ */
+function formatRubles(kopecks: bigint): string {
+  const negative = kopecks < 0n;
+  const abs = negative ? -kopecks : kopecks;
+  const rubles = String(abs / 100n).replace(/\B(?=(\d{3})+(?!\d))/g, '\u00a0');
+  const cents = String(abs % 100n).padStart(2, '0');
+  return `${negative ? '-' : ''}${rubles},${cents}\u00a0₽`;
+}
+
+/**
+ * Форматирует время из API в часовом поясе операции: "15.01.2026 12:00 (+03:00)"
+ */
+function formatReceiptTime(value: string): string {
+  const match = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::\d{2}(?:\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/.exec(value);
+  if (!match) {
+    return value;
+  }
+  const [, year, month, day, hours, minutes, zone] = match;
+  const offset = zone === 'Z' ? '+00:00' : zone?.replace(/^([+-]\d{2})(\d{2})$/, '$1:$2');
+  return `${day}.${month}.${year} ${hours}:${minutes}${offset ? ` (${offset})` : ''}`;
+}
+
+/**
+ * Разбивает текст на строки не длиннее width символов
+ */
+function wrap(text: string, width: number): string[] {
+  const lines: string[] = [];
+  let current = '';
+
+  for (let word of text.split(/\s+/).filter(Boolean)) {
+    while (word.length > width) {
+      if (current) {
+        lines.push(current);
+        current = '';
+      }
+      lines.push(word.slice(0, width));
+      word = word.slice(width);
+    }
+    if (!current) {
+      current = word;
+    } else if (current.length + 1 + word.length <= width) {
+      current += ` ${word}`;
+    } else {
+      lines.push(current);
+      current = word;
+    }
+  }
+  if (current) {
+    lines.push(current);
+  }
+  return lines.length ? lines : [''];
+}
+
+/**
+ * Выводит название слева и значение справа в строке из width символов
+ *
+ * Длинное название переносится; значение стоит в последней строке,
+ * а если не помещается рядом — на отдельной строке.
+ */
+function justify(label: string, value: string, width: number): string[] {
+  const lines = wrap(label, width);
+  const last = lines[lines.length - 1];
+
+  if (last.length + 1 + value.length <= width) {
+    lines[lines.length - 1] = last + ' '.repeat(width - last.length - value.length) + value;
+    return lines;
+  }
+  return [...lines, ...wrap(value, width).map((line) => line.padStart(width))];
+}
+
+/**
+ * Обходит горизонтальные отрезки тёмных модулей QR-кода
+ */
+function forEachQrRun(qr: QrMatrix, callback: (x: number, y: number, length: number) => void): void {
+  qr.forEach((row, y) => {
+    for (let x = 0; x < row.length; x++) {
+      if (!row[x]) {
+        continue;
+      }
+      const start = x;
+      while (x + 1 < row.length && row[x + 1]) {
+        x++;
+      }
+      callback(start, y, x - start + 1);
+    }
+  });
+}
+
+/**
+ * Рисует QR-код в SVG со свободной зоной
+ */
+function renderQrSvg(qr: QrMatrix): string {
+  const size = qr.length + QR_QUIET_ZONE * 2;
+  const path: string[] = [];
+  forEachQrRun(qr, (x, y, length) => {
+    path.push(`M${x + QR_QUIET_ZONE} ${y + QR_QUIET_ZONE}h${length}v1h-${length}z`);
+  });
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${size} ${size}" width="160" height="160"`
+    + ` shape-rendering="crispEdges"><rect width="${size}" height="${size}" fill="#fff"/>`
+    + `<path d="${path.join('')}" fill="#000"/></svg>`;
+}
+
+/**
+ * Экранирует спецсимволы HTML
+ */
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
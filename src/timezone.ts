@@ -0,0 +1,47 @@
+/**
+ * Форматтеры по часовым поясам: создание Intl.DateTimeFormat заметно дороже форматирования
+ */
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Возвращает форматтер местного времени для часового пояса из базы IANA
+ *
+ * @throws {RangeError} Если часовой пояс неизвестен
+ */
+export function getTimezoneFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Переводит момент времени в местное время часового пояса
+ *
+ * Результат — метка UTC с теми же датой и часами, что на часах в поясе;
+ * разность с исходной меткой равна смещению пояса в этот момент.
+ *
+ * @throws {RangeError} Если часовой пояс неизвестен
+ */
+export function toWallTime(time: number, timezone: string): number {
+  const parts: Record<string, number> = {};
+  for (const part of getTimezoneFormatter(timezone).formatToParts(new Date(time))) {
+    if (part.type !== 'literal') {
+      parts[part.type] = Number(part.value);
+    }
+  }
+
+  const millis = ((time % 1000) + 1000) % 1000;
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second, millis);
+}
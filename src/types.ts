@@ -80,14 +80,19 @@ export interface IncomeClient {
   inn?: string | null;
 }
 
+/**
+ * Сумма: number или string — в рублях (округляются до копеек), bigint — в копейках
+ */
+export type Amount = number | string | bigint;
+
 /**
  * Услуга/товар для чека
  */
 export interface IncomeService {
   /** Наименование услуги/товара */
   name: string;
-  /** Сумма */
-  amount: number;
+  /** Цена за единицу: рубли (number, string) или копейки (bigint) */
+  amount: Amount;
   /** Количество */
   quantity?: number;
 }
@@ -98,8 +103,8 @@ export interface IncomeService {
 export interface CreateIncomeParams {
   /** Наименование услуги/товара */
   name: string;
-  /** Сумма */
-  amount: number;
+  /** Цена за единицу: рубли (number, string) или копейки (bigint) */
+  amount: Amount;
   /** Количество (по умолчанию 1) */
   quantity?: number;
   /** Дата и время операции (по умолчанию текущее время) */
@@ -110,6 +115,12 @@ export interface CreateIncomeParams {
   client?: Partial<IncomeClient>;
   /** Игнорировать ограничение максимального дохода */
   ignoreMaxTotalIncomeRestriction?: boolean;
+  /** Ключ идемпотентности: повторный вызов с тем же ключом вернёт уже созданный чек */
+  idempotencyKey?: string;
+  /** ID клиента из справочника (поля из client дополняют и переопределяют сохранённые) */
+  clientId?: number;
+  /** Заполнить client.displayName по ИНН клиента (FROM_LEGAL_ENTITY), если наименование не указано */
+  resolveClientName?: boolean;
 }
 
 /**
@@ -126,6 +137,12 @@ export interface CreateMultipleIncomeParams {
   client?: Partial<IncomeClient>;
   /** Игнорировать ограничение максимального дохода */
   ignoreMaxTotalIncomeRestriction?: boolean;
+  /** Ключ идемпотентности: повторный вызов с тем же ключом вернёт уже созданный чек */
+  idempotencyKey?: string;
+  /** ID клиента из справочника (поля из client дополняют и переопределяют сохранённые) */
+  clientId?: number;
+  /** Заполнить client.displayName по ИНН клиента (FROM_LEGAL_ENTITY), если наименование не указано */
+  resolveClientName?: boolean;
 }
 
 /**
@@ -156,6 +173,41 @@ export interface IncomeResult {
   amount?: number;
 }
 
+/**
+ * Запись журнала идемпотентности о регистрации чека
+ */
+export interface IncomeLedgerEntry {
+  /** UUID чека (null, пока регистрация не подтверждена сервером) */
+  receiptUuid: string | null;
+  /** Время операции, отправленное в API */
+  operationTime: string;
+  /** Общая сумма, отправленная в API */
+  totalAmount: string;
+  /** Позиции чека, отправленные в API */
+  services: {
+    name: string;
+    amount: string;
+    quantity: number;
+  }[];
+  /** Время создания записи */
+  createdAt: string;
+}
+
+/**
+ * Журнал идемпотентности регистрации чеков
+ *
+ * Хранит результат каждой попытки по ключу идемпотентности,
+ * чтобы повтор после таймаута не создал второй чек.
+ */
+export interface IncomeLedger {
+  /** Возвращает запись по ключу (null, если её нет) */
+  get(key: string): Promise<IncomeLedgerEntry | null>;
+  /** Сохраняет запись */
+  set(key: string, entry: IncomeLedgerEntry): Promise<void>;
+  /** Удаляет запись */
+  delete(key: string): Promise<void>;
+}
+
 /**
  * Информация о чеке
  */
@@ -168,6 +220,34 @@ export interface Receipt {
   jsonUrl: string;
 }
 
+/**
+ * Печатная форма чека
+ */
+export interface ReceiptFile {
+  /** Содержимое файла */
+  data: Buffer;
+  /** Тип содержимого (например, "image/png" или "application/pdf") */
+  contentType: string;
+  /** Имя файла: receipt-<uuid>.<расширение> */
+  fileName: string;
+}
+
+/**
+ * HTTP-ответ, в который можно отправить печатную форму (http.ServerResponse, Express)
+ */
+export interface ReceiptHttpResponse {
+  setHeader(name: string, value: string): unknown;
+  end(data: Buffer): unknown;
+}
+
+/**
+ * Параметры локальной отрисовки чека
+ */
+export interface ReceiptRenderOptions {
+  /** Ссылка в QR-коде (по умолчанию — печатная форма чека на lknpd.nalog.ru) */
+  verificationUrl?: string;
+}
+
 /**
  * JSON-данные чека из API
  */
@@ -226,6 +306,358 @@ export interface ReceiptJson {
   invoiceId: string | null;
 }
 
+/**
+ * Сортировка списка чеков
+ */
+export enum IncomeSortBy {
+  /** По времени операции, сначала новые */
+  OPERATION_TIME_DESC = 'operation_time:desc',
+  /** По времени операции, сначала старые */
+  OPERATION_TIME_ASC = 'operation_time:asc',
+  /** По сумме, по убыванию */
+  TOTAL_AMOUNT_DESC = 'total_amount:desc',
+  /** По сумме, по возрастанию */
+  TOTAL_AMOUNT_ASC = 'total_amount:asc',
+}
+
+/**
+ * Фильтр чеков по статусу
+ */
+export enum IncomeStatusFilter {
+  /** Только действующие чеки */
+  REGISTERED = 'REGISTERED',
+  /** Только аннулированные чеки */
+  CANCELLED = 'CANCELLED',
+}
+
+/**
+ * Параметры получения списка чеков
+ */
+export interface ListIncomesParams {
+  /** Начало периода (включительно) */
+  from?: Date;
+  /** Конец периода (включительно) */
+  to?: Date;
+  /** Сортировка (по умолчанию сначала новые) */
+  sortBy?: IncomeSortBy;
+  /** Смещение от начала списка (по умолчанию 0) */
+  offset?: number;
+  /** Размер страницы (по умолчанию 50) */
+  limit?: number;
+  /** Фильтр по статусу (по умолчанию все чеки) */
+  status?: IncomeStatusFilter;
+}
+
+/**
+ * Чек в списке доходов
+ */
+export interface IncomeListItem extends Omit<ReceiptJson, 'receiptId'> {
+  /** UUID чека */
+  approvedReceiptUuid: string;
+  /** Наименование (первая позиция чека) */
+  name: string;
+  /** Код партнёра */
+  partnerCode?: string | null;
+}
+
+/**
+ * Страница списка чеков
+ */
+export interface IncomeListResponse {
+  /** Чеки на странице */
+  content: IncomeListItem[];
+  /** Есть ли следующая страница */
+  hasMore: boolean;
+  /** Смещение текущей страницы */
+  currentOffset: number;
+  /** Размер текущей страницы */
+  currentLimit: number;
+}
+
+/**
+ * Налоговые начисления за текущий период
+ */
+export interface TaxSummary {
+  /** Итого к оплате */
+  totalForPayment: number;
+  /** Налог, начисленный за текущий период */
+  tax: number;
+  /** Задолженность */
+  debt: number;
+  /** Переплата */
+  overpayment: number;
+  /** Пени */
+  penalty: number;
+  /** Начисленный налог без учёта налогового вычета */
+  nominalTax: number;
+  /** Переплата без учёта налогового вычета */
+  nominalOverpayment: number;
+  /** ID текущего налогового периода (YYYYMM) */
+  taxPeriodId: number;
+  /** Сумма последнего платежа */
+  lastPaymentAmount?: number | null;
+  /** Дата последнего платежа */
+  lastPaymentDate?: string | null;
+}
+
+/**
+ * Начисление налога за налоговый период
+ */
+export interface TaxPeriodRecord {
+  /** ID налогового периода (YYYYMM) */
+  taxPeriodId: number;
+  /** Начисленный налог */
+  taxAmount: number;
+  /** Использованный налоговый вычет */
+  bonusAmount: number;
+  /** Оплачено */
+  paidAmount: number;
+  /** Сумма доходов (налоговая база) */
+  taxBaseAmount: number;
+  /** Дата начисления */
+  chargeDate: string | null;
+  /** Срок уплаты */
+  dueDate: string | null;
+  /** ОКТМО */
+  oktmo: string;
+  /** Регион */
+  regionName: string;
+  /** КБК */
+  kbk: string;
+  /** Код налогового органа */
+  taxOrganCode: string;
+  /** Тип начисления */
+  type: string;
+  /** ID начисления */
+  krsbTaxChargeId: number;
+  /** Количество чеков за период */
+  receiptCount: number;
+}
+
+/**
+ * История налоговых начислений
+ */
+export interface TaxHistoryResponse {
+  /** Начисления по периодам */
+  records: TaxPeriodRecord[];
+}
+
+/**
+ * Статус счёта на оплату
+ */
+export enum InvoiceStatus {
+  /** Выставлен, ожидает оплаты */
+  CREATED = 'CREATED',
+  /** Оплачен, по нему сформирован чек */
+  PAID = 'PAID',
+  /** Отменён */
+  CANCELLED = 'CANCELLED',
+}
+
+/**
+ * Счёт на оплату
+ */
+export interface Invoice {
+  /** ID счёта */
+  invoiceId: string;
+  /** Статус */
+  status: InvoiceStatus;
+  /** Позиции */
+  services: {
+    name: string;
+    amount: number;
+    quantity: number;
+  }[];
+  /** Общая сумма */
+  totalAmount: number;
+  /** Клиент */
+  client: IncomeClient;
+  /** Способ оплаты */
+  paymentType: PaymentType;
+  /** Время создания */
+  createdAt: string;
+  /** Время оплаты */
+  paidAt?: string | null;
+  /** Время отмены */
+  cancelledAt?: string | null;
+  /** UUID чека, сформированного при оплате */
+  receiptUuid?: string | null;
+}
+
+/**
+ * Параметры создания счёта на оплату
+ */
+export interface CreateInvoiceParams {
+  /** Список услуг/товаров */
+  services: IncomeService[];
+  /** Способ оплаты (по умолчанию безналичный) */
+  paymentType?: PaymentType;
+  /** Информация о клиенте */
+  client?: Partial<IncomeClient>;
+  /** ID клиента из справочника */
+  clientId?: number;
+  /** Заполнить client.displayName по ИНН клиента (FROM_LEGAL_ENTITY), если наименование не указано */
+  resolveClientName?: boolean;
+}
+
+/**
+ * Параметры списка счетов
+ */
+export interface ListInvoicesParams {
+  /** Начало периода */
+  from?: Date;
+  /** Конец периода */
+  to?: Date;
+  /** Только счета с этим статусом */
+  status?: InvoiceStatus;
+  /** Смещение (по умолчанию 0) */
+  offset?: number;
+  /** Размер страницы (по умолчанию 50) */
+  limit?: number;
+}
+
+/**
+ * Страница списка счетов
+ */
+export interface InvoiceListResponse {
+  /** Счета на странице */
+  items: Invoice[];
+  /** Есть ли следующая страница */
+  hasMore: boolean;
+  /** Смещение текущей страницы */
+  currentOffset: number;
+  /** Размер текущей страницы */
+  currentLimit: number;
+}
+
+/**
+ * Параметры отметки счёта как оплаченного
+ */
+export interface PayInvoiceParams {
+  /** Дата и время оплаты (по умолчанию текущее время) */
+  operationTime?: Date;
+  /** Фактический способ оплаты (по умолчанию как в счёте) */
+  paymentType?: PaymentType;
+}
+
+/**
+ * Чек, сформированный по оплаченному счёту
+ */
+export interface InvoiceReceipt extends Receipt {
+  /** ID счёта */
+  invoiceId: string;
+}
+
+/**
+ * Вид платёжных реквизитов
+ */
+export enum PaymentDetailsType {
+  /** Банковский счёт */
+  ACCOUNT = 'ACCOUNT',
+  /** Номер телефона для СБП */
+  PHONE = 'PHONE',
+}
+
+/**
+ * Платёжные реквизиты (способ оплаты) из веб-кабинета
+ */
+export interface PaymentDetails {
+  /** ID реквизитов */
+  id: number;
+  /** Вид реквизитов */
+  type: PaymentDetailsType;
+  /** Название банка */
+  bankName: string;
+  /** БИК банка (для счёта) */
+  bankBik?: string | null;
+  /** Расчётный счёт */
+  currentAccount?: string | null;
+  /** Корреспондентский счёт банка */
+  corrAccount?: string | null;
+  /** Телефон для СБП */
+  phone?: string | null;
+  /** Используется по умолчанию в счетах */
+  favorite: boolean;
+}
+
+/**
+ * Данные для добавления или изменения платёжных реквизитов
+ */
+export type PaymentDetailsParams = Omit<PaymentDetails, 'id' | 'favorite'>;
+
+/**
+ * Список платёжных реквизитов
+ */
+export interface PaymentDetailsListResponse {
+  /** Реквизиты */
+  items: PaymentDetails[];
+}
+
+/**
+ * Уведомление из веб-кабинета (налог к уплате, блокировка, превышение лимита и т.п.)
+ */
+export interface NotificationItem {
+  /** ID уведомления */
+  id: string;
+  /** Заголовок */
+  title: string;
+  /** Текст */
+  message: string;
+  /** Тип уведомления */
+  type?: string;
+  /** Время создания */
+  createdAt: string;
+  /** Прочитано ли уведомление */
+  read: boolean;
+}
+
+/**
+ * Параметры списка уведомлений
+ */
+export interface ListNotificationsParams {
+  /** Только непрочитанные */
+  unreadOnly?: boolean;
+  /** Смещение (по умолчанию 0) */
+  offset?: number;
+  /** Размер страницы (по умолчанию 20) */
+  limit?: number;
+}
+
+/**
+ * Страница списка уведомлений
+ */
+export interface NotificationListResponse {
+  /** Уведомления на странице */
+  items: NotificationItem[];
+  /** Есть ли следующая страница */
+  hasMore: boolean;
+  /** Смещение текущей страницы */
+  currentOffset: number;
+  /** Размер текущей страницы */
+  currentLimit: number;
+}
+
+/**
+ * Клиент из справочника веб-кабинета
+ */
+export interface SavedClient extends IncomeClient {
+  /** ID клиента */
+  id: number;
+}
+
+/**
+ * Данные клиента для сохранения в справочнике
+ */
+export type SavedClientParams = Omit<SavedClient, 'id'>;
+
+/**
+ * Справочник клиентов
+ */
+export interface ClientListResponse {
+  /** Клиенты */
+  items: SavedClient[];
+}
+
 /**
  * Профиль пользователя из ответа авторизации
  */
@@ -264,6 +696,22 @@ export interface UserInfo {
   region?: string;
 }
 
+/**
+ * Сведения об организации или ИП, найденные по ИНН
+ */
+export interface Counterparty {
+  /** ИНН */
+  inn: string;
+  /** Наименование (для ИП — ФИО с префиксом «ИП») */
+  name: string;
+  /** КПП (только для организаций) */
+  kpp?: string;
+  /** ОГРН или ОГРНИП */
+  ogrn?: string;
+  /** Адрес регистрации */
+  address?: string;
+}
+
 /**
  * Ошибка API
  */
@@ -288,7 +736,7 @@ export interface NalogApiOptions {
   refreshToken?: string;
   /** Device ID */
   deviceId?: string;
-  /** Часовой пояс */
+  /** Часовой пояс IANA, например "Asia/Yekaterinburg" (по умолчанию "Europe/Moscow") */
   timezone?: string;
   /** Базовый URL API */
   baseUrl?: string;
@@ -298,8 +746,150 @@ export interface NalogApiOptions {
   saveToken?: boolean;
   /** Путь к файлу с токенами (по умолчанию "session-token.json") */
   saveTokenPath?: string;
+  /** Ключ шифрования файла с токенами (пароль или Buffer из 32 байт), AES-256-GCM */
+  saveTokenEncryptionKey?: string | Buffer;
+  /** Хранилище токенов (по умолчанию файл saveTokenPath); включает saveToken */
+  tokenStore?: TokenStore;
+  /**
+   * Вызывается после автоматического обновления сессии:
+   * обновления токена ("refresh") или повторной авторизации по ИНН и паролю ("reauth").
+   * Не вызывается при явных auth() и refreshAccessToken(); ошибки обработчика
+   * записываются в лог и не прерывают запрос.
+   */
+  onSessionRenewed?: (response: TokenResponse, reason: SessionRenewalReason) => void | Promise<void>;
+  /** Повторы при сетевых ошибках и ответах 5xx/429 (по умолчанию выключены) */
+  retry?: RetryPolicy;
+  /** Журнал идемпотентности для idempotencyKey (по умолчанию в памяти процесса) */
+  incomeLedger?: IncomeLedger;
+  /** Таймаут HTTP-запроса в мс, 0 — без таймаута (по умолчанию 30000) */
+  timeout?: number;
+  /**
+   * HTTP-транспорт, совместимый с fetch (по умолчанию глобальный fetch).
+   * Позволяет использовать прокси, undici Agent, mTLS или записывать запросы в тестах
+   */
+  fetch?: FetchFunction;
+  /** Перехватчики запросов (можно добавить позже через api.use()) */
+  interceptors?: Interceptor[];
+  /** Логгер (по умолчанию в console выводятся только ошибки) */
+  logger?: Logger;
+  /** Проверять параметры чека перед отправкой (по умолчанию true) */
+  validateIncome?: boolean;
 }
 
+/**
+ * Контекст исходящего запроса для перехватчиков
+ */
+export interface RequestContext {
+  /** HTTP-метод */
+  method: string;
+  /** Метод API (например, "income") */
+  endpoint: string;
+  /** Полный URL */
+  url: string;
+  /** Заголовки запроса (токен в Authorization скрыт); изменения в beforeRequest попадут в запрос */
+  headers: Record<string, string>;
+  /** Тело запроса со скрытыми паролями, токенами, SMS-кодами и телефонами */
+  body: unknown;
+  /** Номер попытки (больше 1 при повторах) */
+  attempt: number;
+  /** Произвольные данные, общие для всех обработчиков одного запроса */
+  meta: Record<string, unknown>;
+}
+
+/**
+ * Контекст полученного ответа
+ */
+export interface ResponseContext extends RequestContext {
+  /** HTTP-статус */
+  status: number;
+  /** Разобранное тело ответа со скрытыми секретами */
+  data: unknown;
+  /** Длительность запроса в мс */
+  duration: number;
+}
+
+/**
+ * Контекст ошибки запроса
+ */
+export interface ErrorContext extends RequestContext {
+  /** Ошибка: NalogApiError для ответов не 2xx, NetworkError, TimeoutError или причина отмены */
+  error: unknown;
+  /** Длительность запроса в мс */
+  duration: number;
+}
+
+/**
+ * Перехватчик запросов: логирование, метрики, трассировка, аудит
+ *
+ * Обработчики вызываются по очереди для каждой HTTP-попытки;
+ * исключение в обработчике прерывает запрос.
+ */
+export interface Interceptor {
+  /** Перед отправкой запроса */
+  beforeRequest?(context: RequestContext): void | Promise<void>;
+  /** После получения ответа (в том числе с ошибкой) */
+  afterResponse?(context: ResponseContext): void | Promise<void>;
+  /** При ошибке: ответ не 2xx, сетевая ошибка, таймаут или отмена */
+  onError?(context: ErrorContext): void | Promise<void>;
+}
+
+/**
+ * Логгер (совместим с console и winston; для pino — см. README)
+ *
+ * Второй аргумент — структурированные данные события, поле event
+ * содержит его тип ("auth", "token.refresh", "api.request" и т.д.)
+ */
+export interface Logger {
+  debug(message: string, context?: Record<string, unknown>): void;
+  info(message: string, context?: Record<string, unknown>): void;
+  warn(message: string, context?: Record<string, unknown>): void;
+  error(message: string, context?: Record<string, unknown>): void;
+}
+
+/**
+ * Функция, совместимая с глобальным fetch
+ */
+export type FetchFunction = typeof fetch;
+
+/**
+ * Параметры отдельного вызова API
+ */
+export interface RequestOptions {
+  /** Сигнал отмены запроса */
+  signal?: AbortSignal;
+  /** Таймаут в мс (по умолчанию timeout из опций клиента) */
+  timeout?: number;
+}
+
+/**
+ * Политика повторов при временных сбоях
+ */
+export interface RetryPolicy {
+  /** Максимальное число попыток, включая первую (по умолчанию 3) */
+  maxAttempts?: number;
+  /** Начальная задержка в мс, удваивается с каждой попыткой (по умолчанию 500) */
+  baseDelay?: number;
+  /** Максимальная задержка в мс, в том числе из Retry-After (по умолчанию 10000) */
+  maxDelay?: number;
+  /** Случайная задержка от 0 до расчётной (по умолчанию true) */
+  jitter?: boolean;
+  /** HTTP-статусы, при которых запрос повторяется (по умолчанию 429, 500, 502, 503, 504) */
+  retryOnStatus?: number[];
+  /** Повторять при сетевых ошибках (по умолчанию true) */
+  retryOnNetworkError?: boolean;
+  /**
+   * Повторять POST-запросы: true — все, массив — только указанные методы API
+   * (например, ['income', 'cancel']). По умолчанию повторяются только GET-запросы.
+   * Методы авторизации (auth/*) не повторяются ни при каком значении
+   */
+  retryNonIdempotent?: boolean | string[];
+}
+
+/**
+ * Способ обновления сессии
+ */
+export type SessionRenewalReason = 'refresh' | 'reauth';
+
 /**
  * Структура сохранённых токенов
  */
@@ -312,6 +902,20 @@ export interface SavedTokens {
   savedAt: string;
 }
 
+/**
+ * Хранилище токенов между запусками
+ *
+ * Реализуйте этот интерфейс, чтобы хранить сессию в Redis, базе данных и т.п.
+ */
+export interface TokenStore {
+  /** Загружает сохранённые токены (null, если их нет) */
+  load(): Promise<SavedTokens | null>;
+  /** Сохраняет токены */
+  save(tokens: SavedTokens): Promise<void>;
+  /** Удаляет сохранённые токены */
+  clear(): Promise<void>;
+}
+
 /**
  * Состояние авторизации
  */
@@ -0,0 +1,307 @@
+import { ReceiptValidationError, ValidationIssue } from './errors.js';
+import {
+  isValidBankAccount,
+  isValidBik,
+  isValidCorrAccount,
+  isValidIndividualInn,
+  isValidInn,
+  isValidPhone,
+} from './identifiers.js';
+import { MAX_INTEGER_DIGITS, formatKopecks, multiplyKopecks, toKopecks } from './money.js';
+import { toWallTime } from './timezone.js';
+import {
+  Amount,
+  CreateIncomeParams,
+  CreateMultipleIncomeParams,
+  IncomeClient,
+  IncomeService,
+  IncomeType,
+  PaymentDetailsParams,
+  PaymentDetailsType,
+  PaymentType,
+} from './types.js';
+
+/**
+ * Максимальная длина наименования услуги
+ */
+export const MAX_SERVICE_NAME_LENGTH = 256;
+
+/**
+ * Максимальная длина наименования клиента
+ */
+export const MAX_CLIENT_NAME_LENGTH = 256;
+
+/**
+ * Максимальная сумма позиции и чека в копейках (15 цифр в рублях)
+ */
+export const MAX_RECEIPT_AMOUNT = 10n ** BigInt(MAX_INTEGER_DIGITS + 2) - 1n;
+
+/**
+ * Допустимое расхождение часов с сервером при проверке даты операции
+ */
+const MAX_CLOCK_SKEW = 5 * 60 * 1000;
+
+/**
+ * Начало предыдущего месяца (полночь 1-го числа)
+ *
+ * @param timezone Часовой пояс IANA; без него — пояс процесса
+ */
+function startOfPreviousMonth(now: Date, timezone?: string): number {
+  if (!timezone) {
+    return new Date(now.getFullYear(), now.getMonth() - 1, 1).getTime();
+  }
+
+  const wall = new Date(toWallTime(now.getTime(), timezone));
+  const midnight = Date.UTC(wall.getUTCFullYear(), wall.getUTCMonth() - 1, 1);
+  return midnight - (toWallTime(midnight, timezone) - midnight);
+}
+
+/**
+ * Проверяет данные клиента с учётом его типа
+ *
+ * - физлицо: ИНН необязателен, но если указан — 12 цифр;
+ * - телефон, если указан, должен распознаваться normalizePhone();
+ * - юрлицо или ИП: обязательны ИНН (10 или 12 цифр) и наименование;
+ * - иностранная организация: обязательно наименование.
+ */
+export function validateIncomeClient(client: Partial<IncomeClient> = {}, path = 'client'): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const incomeType = client.incomeType ?? IncomeType.FROM_INDIVIDUAL;
+  const inn = client.inn?.trim();
+  const displayName = client.displayName?.trim();
+
+  if (!Object.values(IncomeType).includes(incomeType)) {
+    issues.push({ field: `${path}.incomeType`, message: `Неизвестный тип клиента: ${incomeType}` });
+    return issues;
+  }
+
+  if (inn && !isValidInn(inn)) {
+    issues.push({ field: `${path}.inn`, message: `Некорректный ИНН: ${inn}` });
+  } else if (inn && incomeType === IncomeType.FROM_INDIVIDUAL && !isValidIndividualInn(inn)) {
+    issues.push({ field: `${path}.inn`, message: 'ИНН физического лица должен состоять из 12 цифр' });
+  }
+
+  if (incomeType === IncomeType.FROM_LEGAL_ENTITY && !inn) {
+    issues.push({ field: `${path}.inn`, message: 'Для юридического лица ИНН обязателен' });
+  }
+
+  if (incomeType !== IncomeType.FROM_INDIVIDUAL && !displayName) {
+    issues.push({ field: `${path}.displayName`, message: 'Для юридического лица и иностранной организации наименование обязательно' });
+  }
+
+  if (client.contactPhone && !isValidPhone(client.contactPhone)) {
+    issues.push({ field: `${path}.contactPhone`, message: `Некорректный номер телефона: ${client.contactPhone}` });
+  }
+
+  if (displayName && displayName.length > MAX_CLIENT_NAME_LENGTH) {
+    issues.push({
+      field: `${path}.displayName`,
+      message: `Наименование клиента длиннее ${MAX_CLIENT_NAME_LENGTH} символов`,
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Проверяет, что сумма — число не меньше одной копейки после округления
+ */
+function isPositiveAmount(amount: Amount): boolean {
+  try {
+    return toKopecks(amount) > 0n;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Проверяет позицию чека
+ *
+ * @param path Путь к позиции (пустой для чека с одной позицией)
+ */
+function validateService(service: IncomeService, path: string): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const field = (name: string) => (path ? `${path}.${name}` : name);
+  const name = typeof service.name === 'string' ? service.name.trim() : '';
+
+  if (!name) {
+    issues.push({ field: field('name'), message: 'Наименование не может быть пустым' });
+  } else if (name.length > MAX_SERVICE_NAME_LENGTH) {
+    issues.push({ field: field('name'), message: `Наименование длиннее ${MAX_SERVICE_NAME_LENGTH} символов` });
+  }
+
+  const amountValid = isPositiveAmount(service.amount);
+  if (!amountValid) {
+    issues.push({ field: field('amount'), message: 'Сумма должна быть положительным числом' });
+  }
+
+  const quantity = service.quantity ?? 1;
+  const quantityValid = typeof quantity === 'number' && Number.isFinite(quantity) && quantity > 0;
+  if (!quantityValid) {
+    issues.push({ field: field('quantity'), message: 'Количество должно быть положительным числом' });
+  }
+
+  if (amountValid && quantityValid) {
+    const total = getServiceTotal(service);
+    if (total === null) {
+      issues.push({ field: field('quantity'), message: 'Слишком большое количество' });
+    } else if (total <= 0n) {
+      issues.push({ field: field('quantity'), message: 'Стоимость позиции (цена × количество) округляется до нуля' });
+    } else if (total > MAX_RECEIPT_AMOUNT) {
+      issues.push({
+        field: field('amount'),
+        message: `Стоимость позиции больше ${formatKopecks(MAX_RECEIPT_AMOUNT)}`,
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Вычисляет стоимость позиции в копейках (null, если её нельзя вычислить)
+ */
+function getServiceTotal(service: IncomeService): bigint | null {
+  try {
+    return multiplyKopecks(toKopecks(service.amount), service.quantity ?? 1);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Проверяет общие параметры чека: дату операции, тип оплаты и клиента
+ *
+ * Дата операции не может быть в будущем и раньше начала предыдущего месяца
+ * по часам в поясе timezone.
+ */
+function validateReceiptOptions(
+  params: Pick<CreateIncomeParams, 'operationTime' | 'paymentType' | 'client'>,
+  now: Date,
+  timezone?: string
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const { operationTime, paymentType } = params;
+
+  if (operationTime !== undefined) {
+    const time = operationTime instanceof Date ? operationTime.getTime() : NaN;
+    const earliest = startOfPreviousMonth(now, timezone);
+
+    if (Number.isNaN(time)) {
+      issues.push({ field: 'operationTime', message: 'Некорректная дата операции' });
+    } else if (time > now.getTime() + MAX_CLOCK_SKEW) {
+      issues.push({ field: 'operationTime', message: 'Дата операции не может быть в будущем' });
+    } else if (time < earliest) {
+      issues.push({ field: 'operationTime', message: 'Дата операции не может быть раньше начала предыдущего месяца' });
+    }
+  }
+
+  if (paymentType !== undefined && !Object.values(PaymentType).includes(paymentType)) {
+    issues.push({ field: 'paymentType', message: `Неизвестный тип оплаты: ${paymentType}` });
+  }
+
+  return [...issues, ...validateIncomeClient(params.client)];
+}
+
+/**
+ * Проверяет параметры чека с одной позицией
+ *
+ * @param timezone Часовой пояс IANA для границы предыдущего месяца (по умолчанию — пояс процесса)
+ * @returns Список проблем (пустой, если параметры корректны)
+ */
+export function validateCreateIncomeParams(
+  params: CreateIncomeParams,
+  now = new Date(),
+  timezone?: string
+): ValidationIssue[] {
+  const { name, amount, quantity } = params;
+  return [
+    ...validateService({ name, amount, quantity }, ''),
+    ...validateReceiptOptions(params, now, timezone),
+  ];
+}
+
+/**
+ * Проверяет параметры чека с несколькими позициями
+ *
+ * @param timezone Часовой пояс IANA для границы предыдущего месяца (по умолчанию — пояс процесса)
+ * @returns Список проблем (пустой, если параметры корректны)
+ */
+export function validateCreateMultipleIncomeParams(
+  params: CreateMultipleIncomeParams,
+  now = new Date(),
+  timezone?: string
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  if (!Array.isArray(params.services) || params.services.length === 0) {
+    issues.push({ field: 'services', message: 'Чек должен содержать хотя бы одну позицию' });
+  } else {
+    params.services.forEach((service, i) => {
+      issues.push(...validateService(service, `services[${i}]`));
+    });
+
+    if (issues.length === 0) {
+      const total = params.services.reduce((sum, service) => sum + (getServiceTotal(service) ?? 0n), 0n);
+      if (total > MAX_RECEIPT_AMOUNT) {
+        issues.push({ field: 'services', message: `Сумма чека больше ${formatKopecks(MAX_RECEIPT_AMOUNT)}` });
+      }
+    }
+  }
+
+  return [...issues, ...validateReceiptOptions(params, now, timezone)];
+}
+
+/**
+ * Проверяет платёжные реквизиты
+ *
+ * - счёт: обязательны БИК и расчётный счёт с верным контрольным ключом,
+ *   корреспондентский счёт (если указан) тоже проверяется по ключу;
+ * - СБП: обязателен распознаваемый номер телефона.
+ *
+ * @returns Список проблем (пустой, если реквизиты корректны)
+ */
+export function validatePaymentDetails(params: PaymentDetailsParams): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const { type, bankName, bankBik, currentAccount, corrAccount, phone } = params;
+
+  if (!Object.values(PaymentDetailsType).includes(type)) {
+    issues.push({ field: 'type', message: `Неизвестный вид реквизитов: ${type}` });
+    return issues;
+  }
+
+  if (!bankName?.trim()) {
+    issues.push({ field: 'bankName', message: 'Название банка не может быть пустым' });
+  }
+
+  if (type === PaymentDetailsType.PHONE) {
+    if (!phone || !isValidPhone(phone)) {
+      issues.push({ field: 'phone', message: `Некорректный номер телефона: ${phone ?? ''}` });
+    }
+    return issues;
+  }
+
+  if (!bankBik || !isValidBik(bankBik)) {
+    issues.push({ field: 'bankBik', message: `Некорректный БИК: ${bankBik ?? ''}` });
+    return issues;
+  }
+
+  if (!currentAccount || !isValidBankAccount(currentAccount, bankBik)) {
+    issues.push({ field: 'currentAccount', message: `Некорректный расчётный счёт или он не соответствует БИК: ${currentAccount ?? ''}` });
+  }
+
+  if (corrAccount && !isValidCorrAccount(corrAccount, bankBik)) {
+    issues.push({ field: 'corrAccount', message: `Некорректный корреспондентский счёт или он не соответствует БИК: ${corrAccount}` });
+  }
+
+  return issues;
+}
+
+/**
+ * Бросает ReceiptValidationError, если найдены проблемы
+ */
+export function assertValid(issues: ValidationIssue[]): void {
+  if (issues.length > 0) {
+    throw new ReceiptValidationError(issues);
+  }
+}